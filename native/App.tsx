@@ -23,50 +23,45 @@ import {
   SpaceGrotesk_700Bold,
 } from "@expo-google-fonts/space-grotesk";
 import {
+  checkAnswer,
   createDefaultStats,
-  generateQuestion,
+  createFactHistory,
+  createQuestion,
+  DEFAULT_CURVE,
+  DEFAULT_SETTINGS,
+  formatAnswer,
+  formatMs,
+  formatSeconds,
   getAccuracy,
   getAverageMs,
+  getFeedbackText,
+  getKeypadRows,
   getTargetMs,
   getWeakestSkill,
-  MAX_LEVEL,
-  pickSkill,
+  normalizeSettings,
+  normalizeStats,
+  SETTINGS_KEY,
   SKILL_LABELS,
+  SKILL_LIST,
+  SKILL_SYMBOLS,
+  SPACE_KEY,
+  STORAGE_KEY,
+  THEME_KEY,
+  type FactHistory,
+  type Feedback,
   type Mode,
   type Question,
+  type QuestionContext,
+  type Settings,
   type SkillKey,
   type Stats,
   updateStats,
-} from "./src/lib/math";
-
-const STORAGE_KEY = "math-training-state";
-const THEME_KEY = "math-training-theme";
-const SETTINGS_KEY = "math-training-settings";
-const DEFAULT_SETTINGS = {
-  questionCount: 10,
-  timeLimitSeconds: 10,
-  negativeLevel: 0,
-};
-
-type Feedback = {
-  correct: boolean;
-  expected: number;
-  ms: number;
-  skill: SkillKey;
-  level: number;
-  timedOut?: boolean;
-};
+} from "@math-training/core";
 
 type ThemeMode = "light" | "dark" | "system";
 
 type Screen = "menu" | "drill" | "settings" | "summary" | "stats";
 
-type Settings = {
-  questionCount: number;
-  timeLimitSeconds: number;
-  negativeLevel: number;
-};
-
 type Theme = {
   colors: {
     background: string;
@@ -160,21 +155,29 @@ const darkTheme: Theme = {
   statusBarStyle: "light",
 };
 
-const formatMs = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
-const formatSeconds = (value: number) => `${String(value).padStart(2, "0")}s`;
-
-const createQuestion = (
-  selectedMode: Mode,
-  snapshot: Stats,
-  negativeLevel: number
-) => {
-  const skill = selectedMode === "mix" ? pickSkill(snapshot) : selectedMode;
-  const level = snapshot[skill].level;
-  const allowNegative =
-    skill === "sub" && negativeLevel > 0 && level >= negativeLevel;
-  return generateQuestion(skill, level, { allowNegative });
+const SKILL_SUBTITLES: Record<SkillKey, string> = {
+  add: "Sum drills",
+  sub: "Minus drills",
+  mul: "Times tables",
+  div: "Quotient practice",
+  frac: "Parts of a whole",
+  dec: "Place value practice",
+  pct: "Parts of a hundred",
+  pow: "Squares, cubes and √",
+  expr: "Order of operations",
+  int: "Negative numbers",
 };
 
+// Questions here draw from Math.random over the default curve, with no fact
+// weighting or table focus.
+const createContext = (history: FactHistory): QuestionContext => ({
+  rng: Math.random,
+  history,
+  curve: DEFAULT_CURVE,
+  facts: {},
+  tableDrill: null,
+});
+
 export default function App() {
   const colorScheme = useColorScheme();
   const [themeMode, setThemeMode] = useState<ThemeMode>("system");
@@ -207,15 +210,16 @@ export default function App() {
   const advanceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const statsRef = useRef(stats);
   const modeRef = useRef(mode);
+  const factsRef = useRef<FactHistory>(createFactHistory());
 
   useEffect(() => {
     const load = async () => {
       try {
         const raw = await AsyncStorage.getItem(STORAGE_KEY);
         if (raw) {
-          const saved = JSON.parse(raw) as { stats?: Stats; mode?: Mode };
+          const saved = JSON.parse(raw) as { stats?: unknown; mode?: Mode };
           if (saved.stats) {
-            setStats(saved.stats);
+            setStats(normalizeStats(saved.stats));
           }
           if (saved.mode) {
             setMode(saved.mode);
@@ -232,14 +236,9 @@ export default function App() {
         const savedSettings = await AsyncStorage.getItem(SETTINGS_KEY);
         if (savedSettings) {
           const parsed = JSON.parse(savedSettings) as Partial<Settings>;
-          setSettings((prev) => {
-            const nextNegative = parsed.negativeLevel ?? prev.negativeLevel;
-            return {
-              questionCount: parsed.questionCount ?? prev.questionCount,
-              timeLimitSeconds: parsed.timeLimitSeconds ?? prev.timeLimitSeconds,
-              negativeLevel: Math.min(Math.max(nextNegative, 0), MAX_LEVEL),
-            };
-          });
+          setSettings((prev) =>
+            normalizeSettings(parsed, DEFAULT_CURVE.maxLevel, prev)
+          );
           if (typeof parsed.timeLimitSeconds === "number") {
             setTimeLeft(parsed.timeLimitSeconds);
           }
@@ -344,14 +343,17 @@ export default function App() {
       setSession({ correct: 0, wrong: 0 });
       setQuestionIndex(1);
       setScreen("drill");
-      const nextQuestion = createQuestion(
+      factsRef.current = createFactHistory();
+      const next = createQuestion(
         nextMode,
         statsRef.current,
-        settings.negativeLevel
+        settings,
+        createContext(factsRef.current)
       );
-      beginQuestion(nextQuestion);
+      factsRef.current = next.history;
+      beginQuestion(next.question);
     },
-    [beginQuestion, clearAdvanceTimer, settings.negativeLevel]
+    [beginQuestion, clearAdvanceTimer, settings]
   );
 
   const goToMenu = useCallback(() => {
@@ -373,13 +375,14 @@ export default function App() {
         statsRef.current,
         question.skill,
         correct,
-        elapsed
+        elapsed,
+        { difficulty: question.difficulty }
       );
       statsRef.current = nextStats;
       setStats(nextStats);
       setFeedback({
         correct,
-        expected: question.answer,
+        expected: formatAnswer(question),
         ms: elapsed,
         skill: question.skill,
         level: question.level,
@@ -409,14 +412,13 @@ export default function App() {
       return;
     }
 
-    const numeric = Number(cleaned);
-    if (!Number.isFinite(numeric)) {
+    const correct = checkAnswer(question, cleaned);
+    if (correct === null) {
       setError("Numbers only for now.");
       return;
     }
 
     const elapsed = Date.now() - startTimeRef.current;
-    const correct = numeric === question.answer;
 
     clearAdvanceTimer();
     applyResult(correct, elapsed);
@@ -454,14 +456,15 @@ export default function App() {
         });
         return;
       }
+      const value = key === SPACE_KEY ? " " : key === "R" ? " r " : key;
       setAnswer((prev) => {
-        if (prev === "0") {
-          return key;
+        if (prev === "0" && /\d/.test(value)) {
+          return value;
         }
-        if (prev === "-0") {
-          return `-${key}`;
+        if (prev === "-0" && /\d/.test(value)) {
+          return `-${value}`;
         }
-        return prev + key;
+        return prev + value;
       });
     },
     [answered]
@@ -480,20 +483,21 @@ export default function App() {
       return;
     }
     setQuestionIndex(nextIndex);
-    const nextQuestion = createQuestion(
+    const next = createQuestion(
       modeRef.current,
       statsRef.current,
-      settings.negativeLevel
+      settings,
+      createContext(factsRef.current)
     );
-    beginQuestion(nextQuestion);
+    factsRef.current = next.history;
+    beginQuestion(next.question);
   }, [
     answered,
     beginQuestion,
     clearAdvanceTimer,
     question,
     questionIndex,
-    settings.negativeLevel,
-    settings.questionCount,
+    settings,
   ]);
 
   const handleTimeout = useCallback(() => {
@@ -530,7 +534,7 @@ export default function App() {
 
   const adjustNegativeLevel = (delta: number) => {
     setSettings((prev) => {
-      const next = Math.min(Math.max(prev.negativeLevel + delta, 0), MAX_LEVEL);
+      const next = Math.min(Math.max(prev.negativeLevel + delta, 0), DEFAULT_CURVE.maxLevel);
       return { ...prev, negativeLevel: next };
     });
   };
@@ -587,55 +591,25 @@ export default function App() {
   const weaknessText = hasAttempts ? SKILL_LABELS[weakestSkill] : "No data yet";
   const allowNegativeAnswer = Boolean(
     question &&
-      question.skill === "sub" &&
-      settings.negativeLevel > 0 &&
-      question.level >= settings.negativeLevel
+      (question.skill === "int" ||
+        (question.skill === "sub" &&
+          settings.negativeLevel > 0 &&
+          question.level >= settings.negativeLevel))
   );
-  const keypadRows = allowNegativeAnswer
-    ? [
-        ["7", "8", "9"],
-        ["4", "5", "6"],
-        ["1", "2", "3"],
-        ["-", "0", "DEL", "CLR"],
-      ]
-    : [
-        ["7", "8", "9"],
-        ["4", "5", "6"],
-        ["1", "2", "3"],
-        ["CLR", "0", "DEL"],
-      ];
-  const skillKeys: SkillKey[] = ["add", "sub", "mul", "div"];
+  const keypadRows = getKeypadRows(question, allowNegativeAnswer);
   const menuItems = [
     {
       mode: "mix" as const,
       label: "Random mix",
       subtitle: "Adaptive blend",
-      icon: "shuffle",
-    },
-    {
-      mode: "add" as const,
-      label: "Addition",
-      subtitle: "Sum drills",
-      icon: "plus",
-    },
-    {
-      mode: "sub" as const,
-      label: "Subtraction",
-      subtitle: "Minus drills",
-      icon: "minus",
-    },
-    {
-      mode: "mul" as const,
-      label: "Multiplication",
-      subtitle: "Times tables",
-      icon: "x",
-    },
-    {
-      mode: "div" as const,
-      label: "Division",
-      subtitle: "Quotient practice",
-      icon: "divide",
-    },
+      icon: "M",
+    },
+    ...SKILL_LIST.map((skill) => ({
+      mode: skill,
+      label: SKILL_LABELS[skill],
+      subtitle: SKILL_SUBTITLES[skill],
+      icon: SKILL_SYMBOLS[skill],
+    })),
   ];
   const totalAnswered = session.correct + session.wrong;
   const accuracy = totalAnswered
@@ -653,7 +627,7 @@ export default function App() {
           : screen === "stats"
             ? "Statistics"
             : "Settings";
-  const allHistory = skillKeys.flatMap((skill) => stats[skill].history);
+  const allHistory = SKILL_LIST.flatMap((skill) => stats[skill].history);
   const allCorrect = allHistory.filter((item) => item.correct).length;
   const allAttempts = allHistory.length;
   const overallAccuracy = allAttempts
@@ -661,13 +635,7 @@ export default function App() {
     : 0;
   const totalMs = allHistory.reduce((sum, item) => sum + item.ms, 0);
   const overallAvgMs = allAttempts ? totalMs / allAttempts : 0;
-  const feedbackText = feedback
-    ? feedback.correct
-      ? `Correct. ${formatMs(feedback.ms)}.`
-      : feedback.timedOut
-        ? `Time's up. Answer: ${feedback.expected}.`
-        : `Not yet. Answer: ${feedback.expected}.`
-    : "";
+  const feedbackText = getFeedbackText(feedback);
 
   let content: JSX.Element | null = null;
 
@@ -717,11 +685,7 @@ export default function App() {
               ]}
             >
               <View style={styles.menuIcon}>
-                <Feather
-                  name={item.icon as keyof typeof Feather.glyphMap}
-                  size={18}
-                  color={theme.colors.accentStrong}
-                />
+                <Text style={styles.menuIconText}>{item.icon}</Text>
               </View>
               <View>
                 <Text style={styles.menuLabel}>{item.label}</Text>
@@ -799,7 +763,7 @@ export default function App() {
                 </View>
                 <View style={styles.metaPill}>
                   <Text style={styles.metaPillText}>
-                    Target {formatMs(getTargetMs(question.level))}
+                    Target {formatMs(getTargetMs(stats[question.skill]))}
                   </Text>
                 </View>
               </View>
@@ -954,7 +918,7 @@ export default function App() {
         </View>
 
         <View style={styles.statGrid}>
-          {skillKeys.map((skill) => {
+          {SKILL_LIST.map((skill) => {
             const history = stats[skill].history;
             const accuracy = getAccuracy(stats[skill]);
             const avgMs = getAverageMs(stats[skill]);
@@ -963,6 +927,7 @@ export default function App() {
                 ? "No data"
                 : `${Math.round(accuracy * 100)}%`;
             const speedText = history.length === 0 ? "-" : formatMs(avgMs);
+            const targetText = formatMs(getTargetMs(stats[skill]));
             const barWidth =
               history.length === 0 ? "0%" : `${Math.round(accuracy * 100)}%`;
 
@@ -989,6 +954,11 @@ export default function App() {
                     <Text style={styles.metricLabel}>Avg time</Text>
                     <Text style={styles.metricValue}>{speedText}</Text>
                   </View>
+                  <View style={styles.metricDivider} />
+                  <View>
+                    <Text style={styles.metricLabel}>Target</Text>
+                    <Text style={styles.metricValue}>{targetText}</Text>
+                  </View>
                 </View>
                 <View style={styles.dotRow}>
                   {history.length === 0 ? (
@@ -1471,6 +1441,11 @@ const createStyles = (theme: Theme, topInset: number) =>
       justifyContent: "center",
       marginRight: 12,
     },
+    menuIconText: {
+      fontFamily: "SpaceGrotesk_700Bold",
+      fontSize: 15,
+      color: theme.colors.accentStrong,
+    },
     menuLabel: {
       fontFamily: "SpaceGrotesk_700Bold",
       fontSize: 15,
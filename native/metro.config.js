@@ -0,0 +1,11 @@
+/* eslint-disable @typescript-eslint/no-require-imports */
+const path = require("path");
+const { getDefaultConfig } = require("expo/metro-config");
+
+const config = getDefaultConfig(__dirname);
+
+// Let Metro see the shared core package that lives outside this folder.
+config.watchFolders = [path.resolve(__dirname, "../packages/core")];
+config.resolver.nodeModulesPaths = [path.resolve(__dirname, "node_modules")];
+
+module.exports = config;
@@ -7,6 +7,8 @@ const nextConfig: NextConfig = {
   generateEtags: true,
   // Remove PoweredBy header for security
   poweredByHeader: false,
+  // The shared core package ships TypeScript source
+  transpilePackages: ["@math-training/core"],
   // Image optimization
   images: {
     formats: ["image/avif", "image/webp"],
@@ -0,0 +1,541 @@
+import { mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join, resolve } from "path";
+import {
+  ADAPTIVITY_ENGINES,
+  AGE_GROUPS,
+  createDefaultStats,
+  createRng,
+  DEFAULT_AGE_GROUP,
+  DEFAULT_CURVE,
+  DEFAULT_ENGINE,
+  DEFAULT_TIMING,
+  generateQuestion,
+  isAdaptivityEngine,
+  isAgeGroup,
+  isSkillKey,
+  isTimingMode,
+  parseLevelCurve,
+  SKILL_LIST,
+  TIMING_MODES,
+  updateStats,
+  type AdaptivityEngine,
+  type AgeGroup,
+  type LevelCurve,
+  type Rng,
+  type SkillKey,
+  type TimingMode,
+} from "../src/math";
+
+// Synthetic learners drilled through generateQuestion/updateStats, used to
+// see how the level rules behave before changing LEVELS or getTargetMs.
+//
+//   npm run simulate -- --learners 200 --questions 1500 --profile typical
+
+interface SkillCurve {
+  // Chance of a correct answer at level 1 and at the top level.
+  accuracy: [number, number];
+  // Typical answer time in ms at level 1 and at the top level.
+  ms: [number, number];
+  // Accuracy gained per 1000 answers in the skill.
+  learning?: number;
+  // How far individual learners stray from the curve.
+  spread?: number;
+}
+
+interface LearnerProfile {
+  name: string;
+  skills: Record<SkillKey, SkillCurve>;
+}
+
+interface SimOptions {
+  skills: SkillKey[];
+  learners: number;
+  questions: number;
+  checkpoint: number;
+  seed: number;
+  engine: AdaptivityEngine;
+  timing: TimingMode;
+  ageGroup: AgeGroup;
+  curve: LevelCurve;
+  profile: LearnerProfile;
+  format: "table" | "csv";
+  out: string | null;
+}
+
+interface LearnerRun {
+  levels: number[];
+  reachedAt: Record<number, number>;
+  downs: number;
+  oscillations: number;
+}
+
+interface Table {
+  title: string;
+  file: string;
+  headers: string[];
+  rows: string[][];
+  // Long format with one number per cell, for spreadsheets.
+  csv?: { headers: string[]; rows: string[][] };
+}
+
+const PROFILE_CURVES: Record<string, SkillCurve> = {
+  strong: { accuracy: [0.98, 0.85], ms: [1500, 5000], spread: 0.04 },
+  typical: { accuracy: [0.95, 0.7], ms: [2500, 9000], spread: 0.06 },
+  struggling: { accuracy: [0.85, 0.55], ms: [5000, 14000], spread: 0.08 },
+};
+const MILESTONES = [2, 5, 10, 15, 20, 25, 30, 40, 50];
+const DEFAULT_SKILLS: SkillKey[] = ["add", "sub", "mul", "div"];
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+  --skills add,sub,mul,div   Skills to simulate, each drilled on its own
+  --learners 200             Learners per skill
+  --questions 1000           Questions per learner
+  --checkpoint 100           Questions between trajectory rows
+  --profile typical          strong, typical, struggling or a JSON file
+  --engine streak            ${ADAPTIVITY_ENGINES.join(" or ")}
+  --timing question          ${TIMING_MODES.join(", ")}
+  --age adult                ${AGE_GROUPS.join(", ")}
+  --curve <file>             Level curve JSON, as loaded in settings
+  --seed 1                   Seed for repeatable runs
+  --format table             table or csv
+  --out <dir>                Also write each report as a CSV file
+
+A profile file gives a default curve and optional per-skill overrides:
+  {"name": "slow tables",
+   "default": {"accuracy": [0.95, 0.7], "ms": [2500, 9000]},
+   "skills": {"mul": {"accuracy": [0.9, 0.6], "ms": [3000, 12000],
+                      "learning": 0.05, "spread": 0.05}}}`;
+
+const fail = (message: string): never => {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(1);
+};
+
+// npm runs scripts from the repo root, so paths given on the command line are
+// resolved from where the command was typed.
+const resolvePath = (file: string) =>
+  resolve(process.env.INIT_CWD ?? process.cwd(), file);
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+
+const lerp = ([start, end]: [number, number], t: number) =>
+  start + (end - start) * t;
+
+const percentile = (values: number[], rank: number) => {
+  if (values.length === 0) {
+    return NaN;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.ceil(rank * sorted.length) - 1;
+  return sorted[clamp(index, 0, sorted.length - 1)];
+};
+
+const mean = (values: number[]) =>
+  values.length === 0
+    ? NaN
+    : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const isPair = (value: unknown): value is [number, number] =>
+  Array.isArray(value) &&
+  value.length === 2 &&
+  value.every((item) => typeof item === "number" && Number.isFinite(item));
+
+const parseSkillCurve = (value: unknown, label: string): SkillCurve => {
+  const curve = (value ?? {}) as Partial<SkillCurve>;
+  if (!isPair(curve.accuracy) || curve.accuracy.some((p) => p < 0 || p > 1)) {
+    return fail(`${label}: accuracy must be two numbers between 0 and 1.`);
+  }
+  if (!isPair(curve.ms) || curve.ms.some((ms) => ms <= 0)) {
+    return fail(`${label}: ms must be two positive numbers.`);
+  }
+  return {
+    accuracy: curve.accuracy,
+    ms: curve.ms,
+    learning: typeof curve.learning === "number" ? curve.learning : 0,
+    spread: typeof curve.spread === "number" ? curve.spread : 0.05,
+  };
+};
+
+const buildProfile = (
+  name: string,
+  base: SkillCurve,
+  overrides: Record<string, unknown> = {}
+): LearnerProfile => {
+  const skills = {} as Record<SkillKey, SkillCurve>;
+  SKILL_LIST.forEach((skill) => {
+    const override = overrides[skill];
+    skills[skill] = override
+      ? parseSkillCurve(override, `${name}.${skill}`)
+      : base;
+  });
+  return { name, skills };
+};
+
+const loadProfile = (value: string): LearnerProfile => {
+  if (PROFILE_CURVES[value]) {
+    return buildProfile(value, PROFILE_CURVES[value]);
+  }
+  let parsed: {
+    name?: unknown;
+    default?: unknown;
+    skills?: Record<string, unknown>;
+  };
+  try {
+    parsed = JSON.parse(readFileSync(resolvePath(value), "utf8"));
+  } catch {
+    return fail(`Profile "${value}" is not a built-in profile or a JSON file.`);
+  }
+  const name = typeof parsed.name === "string" ? parsed.name : value;
+  const base = parsed.default
+    ? parseSkillCurve(parsed.default, `${name}.default`)
+    : PROFILE_CURVES.typical;
+  return buildProfile(name, base, parsed.skills ?? {});
+};
+
+const loadCurve = (file: string) => {
+  let source: string;
+  try {
+    source = readFileSync(resolvePath(file), "utf8");
+  } catch {
+    return fail(`Could not read curve file "${file}".`);
+  }
+  const { curve, errors } = parseLevelCurve(source);
+  return (
+    curve ?? fail(`Curve "${file}" is invalid:\n  ${errors.join("\n  ")}`)
+  );
+};
+
+const readCount = (value: string, flag: string) => {
+  const count = Number(value);
+  return Number.isInteger(count) && count > 0
+    ? count
+    : fail(`${flag} needs a positive whole number.`);
+};
+
+const parseArgs = (args: string[]): SimOptions => {
+  const options: SimOptions = {
+    skills: DEFAULT_SKILLS,
+    learners: 200,
+    questions: 1000,
+    checkpoint: 100,
+    seed: 1,
+    engine: DEFAULT_ENGINE,
+    timing: DEFAULT_TIMING,
+    ageGroup: DEFAULT_AGE_GROUP,
+    curve: DEFAULT_CURVE,
+    profile: loadProfile("typical"),
+    format: "table",
+    out: null,
+  };
+  for (let index = 0; index < args.length; index += 1) {
+    const flag = args[index];
+    if (flag === "--help" || flag === "-h") {
+      console.log(USAGE);
+      process.exit(0);
+    }
+    const value = args[index + 1] ?? fail(`Missing value for ${flag}.`);
+    index += 1;
+    if (flag === "--skills") {
+      const skills = value.split(",").map((item) => item.trim());
+      const unknown = skills.filter((skill) => !isSkillKey(skill));
+      if (unknown.length > 0) {
+        fail(`Unknown skill: ${unknown.join(", ")}.`);
+      }
+      options.skills = skills as SkillKey[];
+    } else if (flag === "--learners") {
+      options.learners = readCount(value, flag);
+    } else if (flag === "--questions") {
+      options.questions = readCount(value, flag);
+    } else if (flag === "--checkpoint") {
+      options.checkpoint = readCount(value, flag);
+    } else if (flag === "--seed") {
+      options.seed = readCount(value, flag);
+    } else if (flag === "--engine") {
+      options.engine = isAdaptivityEngine(value)
+        ? value
+        : fail(`Unknown engine "${value}".`);
+    } else if (flag === "--timing") {
+      options.timing = isTimingMode(value)
+        ? value
+        : fail(`Unknown timing "${value}".`);
+    } else if (flag === "--age") {
+      options.ageGroup = isAgeGroup(value)
+        ? value
+        : fail(`Unknown age group "${value}".`);
+    } else if (flag === "--curve") {
+      options.curve = loadCurve(value);
+    } else if (flag === "--profile") {
+      options.profile = loadProfile(value);
+    } else if (flag === "--format") {
+      options.format =
+        value === "table" || value === "csv"
+          ? value
+          : fail(`Unknown format "${value}".`);
+    } else if (flag === "--out") {
+      options.out = resolvePath(value);
+    } else {
+      fail(`Unknown option ${flag}.`);
+    }
+  }
+  return options;
+};
+
+// Each learner gets their own offset from the profile curve, so a run shows
+// the spread of a class rather than one idealised learner.
+const runLearner = (
+  skill: SkillKey,
+  options: SimOptions,
+  rng: Rng
+): LearnerRun => {
+  const { curve, engine, timing, ageGroup, questions } = options;
+  const shape = options.profile.skills[skill];
+  const spread = shape.spread ?? 0;
+  const accuracyOffset = (rng() * 2 - 1) * spread;
+  const speedFactor = 1 + (rng() * 2 - 1) * spread * 4;
+  const topLevel = curve.levels[skill].length;
+  let stats = createDefaultStats();
+  let lastDirection = 0;
+  const run: LearnerRun = {
+    levels: [],
+    reachedAt: {},
+    downs: 0,
+    oscillations: 0,
+  };
+
+  for (let index = 1; index <= questions; index += 1) {
+    const level = stats[skill].level;
+    const question = generateQuestion(skill, level, {
+      rng,
+      curve,
+      aim: engine === "rating" ? stats[skill] : undefined,
+    });
+    const t = topLevel > 1 ? (level - 1) / (topLevel - 1) : 0;
+    const practice = ((shape.learning ?? 0) * index) / 1000;
+    const accuracy = clamp(
+      lerp(shape.accuracy, t) + accuracyOffset + practice,
+      0.02,
+      0.99
+    );
+    const correct = rng() < accuracy;
+    const noise = 0.7 + rng() * 0.6;
+    const ms = Math.round(lerp(shape.ms, t) * speedFactor * noise);
+    stats = updateStats(stats, skill, correct, ms, {
+      curve,
+      ageGroup,
+      engine,
+      timing,
+      level,
+      difficulty: question.difficulty,
+    });
+
+    const nextLevel = stats[skill].level;
+    const direction = Math.sign(nextLevel - level);
+    if (direction !== 0) {
+      if (lastDirection !== 0 && direction !== lastDirection) {
+        run.oscillations += 1;
+      }
+      lastDirection = direction;
+    }
+    if (direction < 0) {
+      run.downs += 1;
+    }
+    if (run.reachedAt[nextLevel] === undefined) {
+      for (let reached = 1; reached <= nextLevel; reached += 1) {
+        run.reachedAt[reached] ??= index;
+      }
+    }
+    run.levels.push(nextLevel);
+  }
+  return run;
+};
+
+const simulate = (options: SimOptions) => {
+  const seeds = createRng(options.seed);
+  const runs = {} as Record<SkillKey, LearnerRun[]>;
+  options.skills.forEach((skill) => {
+    runs[skill] = Array.from({ length: options.learners }, () =>
+      runLearner(skill, options, createRng(Math.floor(seeds() * 2 ** 31) + 1))
+    );
+  });
+  return runs;
+};
+
+const formatNumber = (value: number, digits = 0) =>
+  Number.isNaN(value) ? "-" : value.toFixed(digits);
+
+const buildTables = (
+  options: SimOptions,
+  runs: Record<SkillKey, LearnerRun[]>
+): Table[] => {
+  const { skills, questions } = options;
+  const summary: Table = {
+    title: "Summary",
+    file: "summary.csv",
+    headers: [
+      "skill",
+      "final p10",
+      "final median",
+      "final p90",
+      "peak median",
+      "downs per 100",
+      "oscillations",
+    ],
+    rows: skills.map((skill) => {
+      const finals = runs[skill].map((run) => run.levels[questions - 1]);
+      const peaks = runs[skill].map((run) => Math.max(...run.levels));
+      return [
+        skill,
+        formatNumber(percentile(finals, 0.1)),
+        formatNumber(percentile(finals, 0.5)),
+        formatNumber(percentile(finals, 0.9)),
+        formatNumber(percentile(peaks, 0.5)),
+        formatNumber(
+          mean(runs[skill].map((run) => (run.downs * 100) / questions)),
+          2
+        ),
+        formatNumber(mean(runs[skill].map((run) => run.oscillations)), 1),
+      ];
+    }),
+  };
+
+  const topLevel = Math.max(
+    ...skills.map((skill) => options.curve.levels[skill].length)
+  );
+  const milestones = [
+    ...MILESTONES.filter((level) => level < topLevel),
+    topLevel,
+  ];
+  const reached = milestones.map((level) =>
+    skills.map((skill) => {
+      const times = runs[skill]
+        .map((run) => run.reachedAt[level])
+        .filter((value): value is number => value !== undefined);
+      return {
+        skill,
+        level,
+        median: percentile(times, 0.5),
+        share: Math.round((times.length / runs[skill].length) * 100),
+      };
+    })
+  );
+  const timeToLevel: Table = {
+    title: "Questions to first reach a level (median, share of learners)",
+    file: "time-to-level.csv",
+    headers: ["level", ...skills],
+    rows: reached.map((row, index) => [
+      String(milestones[index]),
+      ...row.map(({ median, share }) =>
+        share === 0 ? "-" : `${formatNumber(median)} (${share}%)`
+      ),
+    ]),
+    csv: {
+      headers: ["level", "skill", "median questions", "reached %"],
+      rows: reached.flat().map(({ level, skill, median, share }) => [
+        String(level),
+        skill,
+        share === 0 ? "" : formatNumber(median),
+        String(share),
+      ]),
+    },
+  };
+
+  const checkpoints: number[] = [];
+  for (
+    let index = options.checkpoint;
+    index < questions;
+    index += options.checkpoint
+  ) {
+    checkpoints.push(index);
+  }
+  checkpoints.push(questions);
+  const spread = checkpoints.map((index) =>
+    skills.map((skill) => {
+      const levels = runs[skill].map((run) => run.levels[index - 1]);
+      const [low, median, high] = [0.1, 0.5, 0.9].map((rank) =>
+        percentile(levels, rank)
+      );
+      return { index, skill, low, median, high };
+    })
+  );
+  const trajectory: Table = {
+    title: "Level after N questions (median, p10-p90)",
+    file: "trajectory.csv",
+    headers: ["questions", ...skills],
+    rows: spread.map((row, index) => [
+      String(checkpoints[index]),
+      ...row.map(({ low, median, high }) => `${median} (${low}-${high})`),
+    ]),
+    csv: {
+      headers: ["questions", "skill", "p10", "median", "p90"],
+      rows: spread.flat().map(({ index, skill, low, median, high }) => [
+        String(index),
+        skill,
+        String(low),
+        String(median),
+        String(high),
+      ]),
+    },
+  };
+
+  return [summary, timeToLevel, trajectory];
+};
+
+const formatTable = ({ title, headers, rows }: Table) => {
+  const widths = headers.map((header, column) =>
+    Math.max(header.length, ...rows.map((row) => row[column].length))
+  );
+  const line = (cells: string[]) =>
+    cells
+      .map((cell, column) =>
+        column === 0
+          ? cell.padEnd(widths[column])
+          : cell.padStart(widths[column])
+      )
+      .join("  ");
+  return [
+    title,
+    line(headers),
+    widths.map((width) => "-".repeat(width)).join("  "),
+    ...rows.map(line),
+  ].join("\n");
+};
+
+const escapeCsv = (cell: string) =>
+  /[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+
+const formatCsv = (table: Table) => {
+  const { headers, rows } = table.csv ?? table;
+  return [headers, ...rows]
+    .map((row) => row.map(escapeCsv).join(","))
+    .join("\n");
+};
+
+const main = () => {
+  const options = parseArgs(process.argv.slice(2));
+  const runs = simulate(options);
+  const tables = buildTables(options, runs);
+  const { profile, curve, engine, timing, ageGroup, learners, questions } =
+    options;
+  const header = [
+    `Profile ${profile.name}, curve ${curve.name}, engine ${engine}, timing ${timing}, age ${ageGroup}`,
+    `${learners} learners x ${questions} questions per skill, seed ${options.seed}`,
+  ].join("\n");
+
+  if (options.format === "csv") {
+    console.log(tables.map(formatCsv).join("\n\n"));
+  } else {
+    console.log(`${header}\n\n${tables.map(formatTable).join("\n\n")}`);
+  }
+  const { out } = options;
+  if (out) {
+    mkdirSync(out, { recursive: true });
+    tables.forEach((table) => {
+      writeFileSync(join(out, table.file), `${formatCsv(table)}\n`);
+    });
+    console.error(`Wrote ${tables.length} CSV files to ${out}`);
+  }
+};
+
+main();
@@ -0,0 +1,11 @@
+export * from "./math";
+export * from "./settings";
+export * from "./session";
+export * from "./mistakes";
+export * from "./tips";
+export * from "./keypad";
+export * from "./placement";
+export * from "./sprint";
+export * from "./survival";
+export * from "./presets";
+export * from "./resume";
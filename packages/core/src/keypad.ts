@@ -0,0 +1,27 @@
+import type { Question } from "./math";
+
+export const SPACE_KEY = "␣";
+const DIGIT_ROWS = [
+  ["7", "8", "9"],
+  ["4", "5", "6"],
+  ["1", "2", "3"],
+];
+
+export const getKeypadRows = (
+  question: Question | null,
+  allowNegativeAnswer: boolean
+) => {
+  if (question?.format === "decimal") {
+    return [...DIGIT_ROWS, [".", "0", "DEL", "CLR"]];
+  }
+  if (question?.format === "remainder") {
+    return [...DIGIT_ROWS, ["R", "0", "DEL", "CLR"]];
+  }
+  if (question?.format === "fraction" || question?.format === "mixed") {
+    return [...DIGIT_ROWS, ["/", "0", SPACE_KEY], ["CLR", "DEL"]];
+  }
+  if (allowNegativeAnswer) {
+    return [...DIGIT_ROWS, ["-", "0", "DEL", "CLR"]];
+  }
+  return [...DIGIT_ROWS, ["CLR", "0", "DEL"]];
+};
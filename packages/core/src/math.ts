@@ -0,0 +1,2582 @@
+export type SkillKey =
+  | "add"
+  | "sub"
+  | "mul"
+  | "div"
+  | "frac"
+  | "dec"
+  | "pct"
+  | "pow"
+  | "expr"
+  | "int";
+export type Mode = SkillKey | "mix";
+export type Rng = () => number;
+export type UnknownMode = "result" | "mixed" | "operand";
+export type DifficultyBand = "any" | "easy" | "medium" | "hard";
+export type RegroupMode = "any" | "none" | "one" | "every" | "zero";
+export type QuestionKind =
+  | "like-add"
+  | "like-sub"
+  | "unlike-add"
+  | "unlike-sub"
+  | "simplify"
+  | "frac-mul"
+  | "frac-div"
+  | "mixed-add"
+  | "mixed-sub"
+  | "dec-add"
+  | "dec-sub"
+  | "dec-mul"
+  | "dec-div"
+  | "pct-of"
+  | "pct-what"
+  | "pct-reverse"
+  | "pct-change"
+  | "square"
+  | "cube"
+  | "pow2"
+  | "pow10"
+  | "sqrt"
+  | "cbrt"
+  | "expr-flat"
+  | "expr-trap"
+  | "expr-paren"
+  | "div-remainder"
+  | "missing-left"
+  | "missing-right"
+  | "int-add"
+  | "int-sub"
+  | "int-mul"
+  | "int-div";
+export type AnswerFormat =
+  | "integer"
+  | "fraction"
+  | "mixed"
+  | "decimal"
+  | "remainder";
+
+export type Operator = "+" | "-" | "x" | "/";
+
+export type ExpressionNode =
+  | { type: "number"; value: number }
+  | {
+      type: "op";
+      op: Operator;
+      left: ExpressionNode;
+      right: ExpressionNode;
+    };
+
+export interface Rational {
+  num: number;
+  den: number;
+}
+
+export interface Result {
+  correct: boolean;
+  ms: number;
+  difficulty?: number;
+}
+
+export interface SkillStats {
+  level: number;
+  streak: number;
+  mistakeStreak: number;
+  history: Result[];
+  rating?: number;
+}
+
+export type Stats = Record<SkillKey, SkillStats>;
+
+export type AgeGroup = "early" | "primary" | "middle" | "adult";
+
+export type AdaptivityEngine = "streak" | "rating";
+
+export type TimingMode = "question" | "soft" | "session" | "none";
+
+export interface LevelSpec {
+  minA?: number;
+  maxA: number;
+  minB?: number;
+  maxB: number;
+  allowNegative?: boolean;
+  kinds?: QuestionKind[];
+  places?: number;
+  pool?: number[];
+  maxExponent?: number;
+  terms?: number;
+  operators?: Operator[];
+  signs?: "right" | "either" | "both";
+}
+
+export interface LevelCurve {
+  name: string;
+  maxLevel: number;
+  levels: Record<SkillKey, LevelSpec[]>;
+}
+
+const MAX_HISTORY = 12;
+const MAX_LEVEL = 50;
+
+const buildLinearLevels = (base: number[], step: number) => {
+  const levels = base
+    .slice(0, MAX_LEVEL)
+    .map((max) => ({ maxA: max, maxB: max }));
+  if (levels.length === 0) {
+    return levels;
+  }
+  let current = levels[levels.length - 1].maxA;
+  for (let i = levels.length; i < MAX_LEVEL; i += 1) {
+    current += step;
+    levels.push({ maxA: current, maxB: current });
+  }
+  return levels;
+};
+
+const buildDivLevels = (base: LevelSpec[]) => {
+  const levels = base.slice(0, MAX_LEVEL);
+  if (levels.length === 0) {
+    return levels;
+  }
+  const startIndex = levels.length;
+  let maxA = levels[levels.length - 1].maxA;
+  let maxB = levels[levels.length - 1].maxB;
+  let minA = levels[levels.length - 1].minA ?? 1;
+  for (let i = startIndex; i < MAX_LEVEL; i += 1) {
+    maxA += 5;
+    maxB += 4;
+    const added = i - startIndex + 1;
+    if (added % 5 === 0) {
+      minA += 1;
+    }
+    levels.push({ minA, maxA, minB: 0, maxB });
+  }
+  return levels;
+};
+
+const BASE_ADD_LEVELS = [10, 20, 30, 50, 75, 100, 150, 250, 500, 1000, 1500, 2000];
+const BASE_MUL_LEVELS = [5, 9, 12, 15, 20, 25, 30, 40, 50, 60, 75, 90];
+const BASE_DIV_LEVELS: LevelSpec[] = [
+  { minA: 1, maxA: 5, minB: 0, maxB: 5 },
+  { minA: 1, maxA: 9, minB: 0, maxB: 9 },
+  { minA: 1, maxA: 12, minB: 0, maxB: 12 },
+  { minA: 2, maxA: 15, minB: 0, maxB: 12 },
+  { minA: 2, maxA: 20, minB: 0, maxB: 15 },
+  { minA: 2, maxA: 25, minB: 0, maxB: 20 },
+  { minA: 3, maxA: 30, minB: 0, maxB: 25 },
+  { minA: 3, maxA: 40, minB: 0, maxB: 30 },
+  { minA: 4, maxA: 50, minB: 0, maxB: 40 },
+  { minA: 5, maxA: 60, minB: 0, maxB: 50 },
+  { minA: 6, maxA: 75, minB: 0, maxB: 60 },
+  { minA: 8, maxA: 90, minB: 0, maxB: 70 },
+];
+
+// Fraction levels read maxB as the largest denominator and maxA as the
+// largest simplifying factor or whole part, depending on the kind drawn.
+const FRACTION_LEVELS: LevelSpec[] = [
+  { maxA: 1, minB: 2, maxB: 5, kinds: ["like-add"] },
+  { maxA: 1, minB: 2, maxB: 8, kinds: ["like-add", "like-sub"] },
+  { maxA: 1, minB: 3, maxB: 12, kinds: ["like-add", "like-sub"] },
+  { maxA: 3, minB: 2, maxB: 6, kinds: ["simplify"] },
+  { maxA: 5, minB: 2, maxB: 10, kinds: ["simplify", "like-add", "like-sub"] },
+  { maxA: 1, minB: 2, maxB: 6, kinds: ["unlike-add"] },
+  { maxA: 1, minB: 2, maxB: 8, kinds: ["unlike-add", "unlike-sub"] },
+  { maxA: 1, minB: 2, maxB: 12, kinds: ["unlike-add", "unlike-sub"] },
+  { maxA: 1, minB: 2, maxB: 6, kinds: ["frac-mul"] },
+  { maxA: 1, minB: 2, maxB: 10, kinds: ["frac-mul", "frac-div"] },
+  {
+    maxA: 1,
+    minB: 2,
+    maxB: 12,
+    kinds: ["frac-mul", "frac-div", "unlike-add", "unlike-sub"],
+  },
+  { maxA: 3, minB: 2, maxB: 4, kinds: ["mixed-add"] },
+  { maxA: 5, minB: 2, maxB: 6, kinds: ["mixed-add", "mixed-sub"] },
+  { maxA: 9, minB: 2, maxB: 8, kinds: ["mixed-add", "mixed-sub"] },
+  {
+    maxA: 9,
+    minB: 2,
+    maxB: 12,
+    kinds: ["simplify", "unlike-add", "unlike-sub", "mixed-add", "mixed-sub"],
+  },
+  {
+    maxA: 9,
+    minB: 2,
+    maxB: 12,
+    kinds: [
+      "simplify",
+      "unlike-add",
+      "unlike-sub",
+      "frac-mul",
+      "frac-div",
+      "mixed-add",
+      "mixed-sub",
+    ],
+  },
+  {
+    maxA: 12,
+    minB: 3,
+    maxB: 16,
+    kinds: [
+      "simplify",
+      "unlike-add",
+      "unlike-sub",
+      "frac-mul",
+      "frac-div",
+      "mixed-add",
+      "mixed-sub",
+    ],
+  },
+  {
+    maxA: 15,
+    minB: 3,
+    maxB: 20,
+    kinds: [
+      "simplify",
+      "unlike-add",
+      "unlike-sub",
+      "frac-mul",
+      "frac-div",
+      "mixed-add",
+      "mixed-sub",
+    ],
+  },
+];
+
+// Decimal levels draw add/sub operands up to maxA/maxB with `places` decimal
+// places; for mul/div the second operand is a whole number in minB..maxB.
+const DECIMAL_LEVELS: LevelSpec[] = [
+  { maxA: 1, maxB: 1, places: 1, kinds: ["dec-add"] },
+  { maxA: 10, maxB: 10, places: 1, kinds: ["dec-add", "dec-sub"] },
+  { maxA: 1, maxB: 1, places: 2, kinds: ["dec-add", "dec-sub"] },
+  { maxA: 10, minB: 2, maxB: 5, places: 1, kinds: ["dec-mul"] },
+  { maxA: 10, maxB: 10, places: 2, kinds: ["dec-add", "dec-sub"] },
+  { maxA: 10, minB: 2, maxB: 9, places: 1, kinds: ["dec-mul", "dec-div"] },
+  { maxA: 10, maxB: 10, places: 3, kinds: ["dec-add", "dec-sub"] },
+  { maxA: 10, minB: 2, maxB: 9, places: 2, kinds: ["dec-mul", "dec-div"] },
+  {
+    maxA: 100,
+    minB: 2,
+    maxB: 12,
+    places: 1,
+    kinds: ["dec-add", "dec-sub", "dec-mul", "dec-div"],
+  },
+  {
+    maxA: 100,
+    minB: 2,
+    maxB: 12,
+    places: 2,
+    kinds: ["dec-add", "dec-sub", "dec-mul", "dec-div"],
+  },
+  {
+    maxA: 100,
+    minB: 3,
+    maxB: 20,
+    places: 2,
+    kinds: ["dec-add", "dec-sub", "dec-mul", "dec-div"],
+  },
+  {
+    maxA: 100,
+    minB: 3,
+    maxB: 25,
+    places: 3,
+    kinds: ["dec-add", "dec-sub", "dec-mul", "dec-div"],
+  },
+  {
+    maxA: 1000,
+    minB: 3,
+    maxB: 25,
+    places: 3,
+    kinds: ["dec-add", "dec-sub", "dec-mul", "dec-div"],
+  },
+];
+
+// Percent levels draw the percent from `pool` when set, otherwise from
+// minB..maxB; maxA caps the whole the percent is taken of.
+const FRIENDLY_PERCENTS = [1, 5, 10, 20, 25, 50, 75];
+const PERCENT_LEVELS: LevelSpec[] = [
+  { maxA: 100, maxB: 50, pool: [10, 50], kinds: ["pct-of"] },
+  { maxA: 200, maxB: 50, pool: [10, 25, 50], kinds: ["pct-of"] },
+  {
+    maxA: 200,
+    maxB: 75,
+    pool: [10, 20, 25, 50, 75],
+    kinds: ["pct-of", "pct-what"],
+  },
+  { maxA: 400, maxB: 75, pool: FRIENDLY_PERCENTS, kinds: ["pct-of", "pct-what"] },
+  {
+    maxA: 500,
+    maxB: 75,
+    pool: [...FRIENDLY_PERCENTS, 15, 30, 40, 60],
+    kinds: ["pct-of", "pct-what", "pct-reverse"],
+  },
+  {
+    maxA: 500,
+    maxB: 75,
+    pool: [...FRIENDLY_PERCENTS, 15, 30, 40, 60],
+    kinds: ["pct-of", "pct-what", "pct-reverse", "pct-change"],
+  },
+  { maxA: 500, minB: 1, maxB: 99, kinds: ["pct-of", "pct-what"] },
+  {
+    maxA: 1000,
+    minB: 1,
+    maxB: 99,
+    kinds: ["pct-of", "pct-what", "pct-reverse", "pct-change"],
+  },
+  {
+    maxA: 1000,
+    minB: 1,
+    maxB: 200,
+    kinds: ["pct-of", "pct-what", "pct-reverse", "pct-change"],
+  },
+  {
+    maxA: 2000,
+    minB: 1,
+    maxB: 300,
+    kinds: ["pct-of", "pct-what", "pct-reverse", "pct-change"],
+  },
+];
+
+// Power levels use minA..maxA for square and square-root bases, minB..maxB
+// for cube and cube-root bases, and maxExponent for powers of two and ten.
+const POWER_LEVELS: LevelSpec[] = [
+  { minA: 1, maxA: 10, maxB: 3, kinds: ["square"] },
+  { minA: 1, maxA: 12, maxB: 3, kinds: ["square"] },
+  { minA: 1, maxA: 12, maxB: 3, kinds: ["square", "sqrt"] },
+  {
+    minA: 2,
+    maxA: 15,
+    maxB: 3,
+    maxExponent: 6,
+    kinds: ["square", "sqrt", "pow2"],
+  },
+  { minA: 2, maxA: 20, minB: 1, maxB: 5, kinds: ["square", "sqrt", "cube"] },
+  {
+    minA: 2,
+    maxA: 15,
+    minB: 1,
+    maxB: 5,
+    maxExponent: 10,
+    kinds: ["sqrt", "cube", "pow2", "pow10"],
+  },
+  { minA: 5, maxA: 25, minB: 2, maxB: 6, kinds: ["square", "cube", "cbrt"] },
+  { minA: 5, maxA: 30, minB: 2, maxB: 6, kinds: ["square", "sqrt", "cbrt"] },
+  {
+    minA: 10,
+    maxA: 30,
+    minB: 2,
+    maxB: 10,
+    maxExponent: 12,
+    kinds: ["sqrt", "cube", "cbrt", "pow2"],
+  },
+  { minA: 10, maxA: 50, minB: 2, maxB: 10, kinds: ["square", "sqrt", "cbrt"] },
+  { minA: 20, maxA: 100, minB: 5, maxB: 12, kinds: ["square", "sqrt", "cube"] },
+  { minA: 50, maxA: 120, minB: 5, maxB: 15, kinds: ["square", "sqrt", "cbrt"] },
+  { minA: 100, maxA: 200, minB: 10, maxB: 20, kinds: ["sqrt", "cbrt"] },
+  { minA: 100, maxA: 500, minB: 10, maxB: 30, kinds: ["sqrt", "cbrt"] },
+  { minA: 100, maxA: 999, minB: 10, maxB: 99, kinds: ["sqrt", "cbrt"] },
+];
+
+// Expression levels draw `terms` operands from minA..maxA; maxB caps the
+// factors and divisors so every step stays mental-math sized.
+const EXPRESSION_LEVELS: LevelSpec[] = [
+  {
+    minA: 1,
+    maxA: 10,
+    maxB: 5,
+    terms: 3,
+    operators: ["+", "-"],
+    kinds: ["expr-flat"],
+  },
+  {
+    minA: 1,
+    maxA: 10,
+    maxB: 5,
+    terms: 3,
+    operators: ["+", "-", "x"],
+    kinds: ["expr-trap"],
+  },
+  {
+    minA: 1,
+    maxA: 10,
+    maxB: 5,
+    terms: 3,
+    operators: ["+", "-", "x"],
+    kinds: ["expr-paren"],
+  },
+  {
+    minA: 1,
+    maxA: 12,
+    maxB: 6,
+    terms: 3,
+    operators: ["+", "-", "x", "/"],
+    kinds: ["expr-trap", "expr-paren"],
+  },
+  {
+    minA: 1,
+    maxA: 12,
+    maxB: 6,
+    terms: 4,
+    operators: ["+", "-", "x"],
+    kinds: ["expr-flat", "expr-trap"],
+  },
+  {
+    minA: 1,
+    maxA: 12,
+    maxB: 9,
+    terms: 4,
+    operators: ["+", "-", "x", "/"],
+    kinds: ["expr-trap", "expr-paren"],
+  },
+  {
+    minA: 2,
+    maxA: 20,
+    maxB: 9,
+    terms: 4,
+    operators: ["+", "-", "x", "/"],
+    kinds: ["expr-trap", "expr-paren"],
+  },
+  {
+    minA: 2,
+    maxA: 20,
+    maxB: 9,
+    terms: 5,
+    operators: ["+", "-", "x"],
+    kinds: ["expr-trap", "expr-paren"],
+  },
+  {
+    minA: 2,
+    maxA: 20,
+    maxB: 12,
+    terms: 5,
+    operators: ["+", "-", "x", "/"],
+    kinds: ["expr-trap", "expr-paren"],
+  },
+  {
+    minA: 2,
+    maxA: 50,
+    maxB: 12,
+    terms: 5,
+    operators: ["+", "-", "x", "/"],
+    kinds: ["expr-trap", "expr-paren"],
+  },
+];
+
+// Integer levels use minA..maxA for add/sub sizes and minB..maxB for mul/div
+// factors; `signs` says which operands may turn negative.
+const INTEGER_LEVELS: LevelSpec[] = [
+  { minA: 1, maxA: 5, maxB: 5, signs: "right", kinds: ["int-add"] },
+  { minA: 1, maxA: 10, maxB: 5, signs: "either", kinds: ["int-add"] },
+  { minA: 1, maxA: 10, maxB: 5, signs: "both", kinds: ["int-add"] },
+  {
+    minA: 1,
+    maxA: 10,
+    maxB: 5,
+    signs: "right",
+    kinds: ["int-add", "int-sub"],
+  },
+  { minA: 1, maxA: 12, maxB: 5, signs: "both", kinds: ["int-add", "int-sub"] },
+  {
+    minA: 1,
+    maxA: 12,
+    minB: 1,
+    maxB: 5,
+    signs: "either",
+    kinds: ["int-mul"],
+  },
+  {
+    minA: 1,
+    maxA: 12,
+    minB: 1,
+    maxB: 10,
+    signs: "both",
+    kinds: ["int-mul"],
+  },
+  {
+    minA: 1,
+    maxA: 12,
+    minB: 1,
+    maxB: 10,
+    signs: "both",
+    kinds: ["int-mul", "int-div"],
+  },
+  {
+    minA: 1,
+    maxA: 20,
+    minB: 1,
+    maxB: 10,
+    signs: "both",
+    kinds: ["int-add", "int-sub", "int-mul", "int-div"],
+  },
+  {
+    minA: 1,
+    maxA: 50,
+    minB: 1,
+    maxB: 12,
+    signs: "both",
+    kinds: ["int-add", "int-sub", "int-mul", "int-div"],
+  },
+  {
+    minA: 1,
+    maxA: 100,
+    minB: 2,
+    maxB: 15,
+    signs: "both",
+    kinds: ["int-add", "int-sub", "int-mul", "int-div"],
+  },
+  {
+    minA: 1,
+    maxA: 500,
+    minB: 2,
+    maxB: 20,
+    signs: "both",
+    kinds: ["int-add", "int-sub", "int-mul", "int-div"],
+  },
+];
+
+const LEVELS: Record<SkillKey, LevelSpec[]> = {
+  add: buildLinearLevels(BASE_ADD_LEVELS, 250),
+  sub: buildLinearLevels(BASE_ADD_LEVELS, 250),
+  mul: buildLinearLevels(BASE_MUL_LEVELS, 5),
+  div: buildDivLevels(BASE_DIV_LEVELS),
+  frac: FRACTION_LEVELS,
+  dec: DECIMAL_LEVELS,
+  pct: PERCENT_LEVELS,
+  pow: POWER_LEVELS,
+  expr: EXPRESSION_LEVELS,
+  int: INTEGER_LEVELS,
+};
+
+export const DEFAULT_CURVE: LevelCurve = {
+  name: "Standard",
+  maxLevel: MAX_LEVEL,
+  levels: LEVELS,
+};
+
+const MAX_CURVE_LEVELS = 200;
+const SPEC_NUMBER_FIELDS = [
+  "minA",
+  "maxA",
+  "minB",
+  "maxB",
+  "places",
+  "maxExponent",
+  "terms",
+] as const;
+const SPEC_FIELDS = [
+  ...SPEC_NUMBER_FIELDS,
+  "allowNegative",
+  "kinds",
+  "pool",
+  "operators",
+  "signs",
+];
+const CURVE_OPERATORS: Operator[] = ["+", "-", "x", "/"];
+const SIGN_MODES = ["right", "either", "both"];
+
+const isWholeList = (value: unknown): value is number[] =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.every((item) => Number.isInteger(item) && item >= 0);
+
+const parseLevelSpec = (
+  skill: SkillKey,
+  value: unknown,
+  label: string,
+  errors: string[]
+): LevelSpec | null => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    errors.push(`${label} must be an object.`);
+    return null;
+  }
+  const entry = value as Record<string, unknown>;
+  const start = errors.length;
+  const spec: LevelSpec = { maxA: 0, maxB: 0 };
+  Object.keys(entry).forEach((field) => {
+    if (!SPEC_FIELDS.includes(field)) {
+      errors.push(`${label}: unknown field "${field}".`);
+    }
+  });
+  SPEC_NUMBER_FIELDS.forEach((field) => {
+    const raw = entry[field];
+    if (raw === undefined) {
+      if (field === "maxA" || field === "maxB") {
+        errors.push(`${label}: ${field} is required.`);
+      }
+      return;
+    }
+    if (typeof raw !== "number" || !Number.isInteger(raw) || raw < 0) {
+      errors.push(`${label}: ${field} must be a whole number.`);
+      return;
+    }
+    spec[field] = raw;
+  });
+  if ((spec.minA ?? 0) > spec.maxA || (spec.minB ?? 0) > spec.maxB) {
+    errors.push(`${label}: min values must not exceed max values.`);
+  }
+  if (spec.terms !== undefined && (spec.terms < 2 || spec.terms > 6)) {
+    errors.push(`${label}: terms must be between 2 and 6.`);
+  }
+  // Operands are scaled by 10 ** places, so a large value would overflow.
+  if (spec.places !== undefined && (spec.places < 1 || spec.places > 4)) {
+    errors.push(`${label}: places must be between 1 and 4.`);
+  }
+  if (entry.allowNegative !== undefined) {
+    if (typeof entry.allowNegative !== "boolean") {
+      errors.push(`${label}: allowNegative must be true or false.`);
+    } else {
+      spec.allowNegative = entry.allowNegative;
+    }
+  }
+  if (entry.kinds !== undefined) {
+    const allowed = LEVELS[skill].flatMap((level) => level.kinds ?? []);
+    if (
+      !Array.isArray(entry.kinds) ||
+      entry.kinds.length === 0 ||
+      !entry.kinds.every((kind) => allowed.includes(kind))
+    ) {
+      errors.push(
+        allowed.length === 0
+          ? `${label}: kinds are not used by this skill.`
+          : `${label}: kinds must be drawn from ${[...new Set(allowed)].join(", ")}.`
+      );
+    } else {
+      spec.kinds = entry.kinds;
+    }
+  }
+  if (entry.pool !== undefined) {
+    if (!isWholeList(entry.pool)) {
+      errors.push(`${label}: pool must be a list of whole numbers.`);
+    } else {
+      spec.pool = entry.pool;
+    }
+  }
+  if (entry.operators !== undefined) {
+    if (
+      !Array.isArray(entry.operators) ||
+      entry.operators.length === 0 ||
+      !entry.operators.every((op) => CURVE_OPERATORS.includes(op))
+    ) {
+      errors.push(`${label}: operators must be drawn from + - x /.`);
+    } else {
+      spec.operators = entry.operators;
+    }
+  }
+  if (entry.signs !== undefined) {
+    if (typeof entry.signs !== "string" || !SIGN_MODES.includes(entry.signs)) {
+      errors.push(`${label}: signs must be right, either or both.`);
+    } else {
+      spec.signs = entry.signs as LevelSpec["signs"];
+    }
+  }
+  return errors.length === start ? spec : null;
+};
+
+const extendLevels = (levels: LevelSpec[], count: number, step: number) => {
+  const extended = levels.slice(0, count);
+  while (extended.length < count) {
+    const last = extended[extended.length - 1];
+    extended.push({ ...last, maxA: last.maxA + step, maxB: last.maxB + step });
+  }
+  return extended;
+};
+
+// A curve document lists authored ladders under "skills". Each skill gives
+// explicit "levels" and may pad them to "levelCount" by adding "step" to the
+// last level's maxima. Skills left out keep the standard ladder.
+export const parseLevelCurve = (
+  value: unknown
+): { curve: LevelCurve | null; errors: string[] } => {
+  const errors: string[] = [];
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return { curve: null, errors: ["The curve must be a JSON object."] };
+  }
+  const document = value as { name?: unknown; skills?: unknown };
+  if (document.name !== undefined && typeof document.name !== "string") {
+    errors.push("name must be text.");
+  }
+  if (
+    !document.skills ||
+    typeof document.skills !== "object" ||
+    Array.isArray(document.skills)
+  ) {
+    return {
+      curve: null,
+      errors: [...errors, "skills must map skill keys to ladders."],
+    };
+  }
+  const levels = { ...LEVELS };
+  Object.entries(document.skills).forEach(([skill, ladder]) => {
+    if (!isSkillKey(skill)) {
+      errors.push(`Unknown skill "${skill}".`);
+      return;
+    }
+    const entry = (ladder ?? {}) as {
+      levels?: unknown;
+      levelCount?: unknown;
+      step?: unknown;
+    };
+    if (!Array.isArray(entry.levels) || entry.levels.length === 0) {
+      errors.push(`${skill}: levels must be a non-empty list.`);
+      return;
+    }
+    const count = entry.levelCount ?? entry.levels.length;
+    const step = entry.step ?? 0;
+    if (
+      typeof count !== "number" ||
+      !Number.isInteger(count) ||
+      count < 1 ||
+      count > MAX_CURVE_LEVELS
+    ) {
+      errors.push(
+        `${skill}: levelCount must be between 1 and ${MAX_CURVE_LEVELS}.`
+      );
+      return;
+    }
+    if (typeof step !== "number" || !Number.isInteger(step) || step < 0) {
+      errors.push(`${skill}: step must be a whole number.`);
+      return;
+    }
+    const specs = entry.levels.map((spec, index) =>
+      parseLevelSpec(skill, spec, `${skill} level ${index + 1}`, errors)
+    );
+    if (specs.every((spec): spec is LevelSpec => spec !== null)) {
+      levels[skill] = extendLevels(specs, count, step);
+    }
+  });
+  if (errors.length > 0) {
+    return { curve: null, errors };
+  }
+  return {
+    curve: {
+      name:
+        typeof document.name === "string" && document.name.trim()
+          ? document.name.trim()
+          : "Custom",
+      maxLevel: Math.max(...SKILL_LIST.map((skill) => levels[skill].length)),
+      levels,
+    },
+    errors,
+  };
+};
+
+export const SKILL_LIST: SkillKey[] = [
+  "add",
+  "sub",
+  "mul",
+  "div",
+  "frac",
+  "dec",
+  "pct",
+  "pow",
+  "expr",
+  "int",
+];
+export const MIX_SKILLS: SkillKey[] = ["add", "sub", "mul", "div"];
+
+export const SKILL_LABELS: Record<SkillKey, string> = {
+  add: "Addition",
+  sub: "Subtraction",
+  mul: "Multiplication",
+  div: "Division",
+  frac: "Fractions",
+  dec: "Decimals",
+  pct: "Percentages",
+  pow: "Powers & roots",
+  expr: "Expressions",
+  int: "Integers",
+};
+
+export const SKILL_SYMBOLS: Record<SkillKey, string> = {
+  add: "+",
+  sub: "-",
+  mul: "x",
+  div: "/",
+  frac: "½",
+  dec: "0.1",
+  pct: "%",
+  pow: "x²",
+  expr: "( )",
+  int: "±",
+};
+
+export interface Question {
+  id: string;
+  text: string;
+  answer: Rational;
+  format: AnswerFormat;
+  remainder?: number;
+  kind?: QuestionKind;
+  skill: SkillKey;
+  level: number;
+  difficulty?: number;
+}
+
+export interface QuestionOptions {
+  allowNegative?: boolean;
+  remainders?: boolean;
+  unknown?: UnknownMode;
+  rng?: Rng;
+  curve?: LevelCurve;
+  band?: DifficultyBand;
+  regroup?: RegroupMode;
+  tables?: TableFocus;
+  // The learner's stats under the rating engine, to aim each question at
+  // TARGET_SUCCESS.
+  aim?: SkillStats;
+}
+
+export interface TableFocus {
+  tables: number[];
+  minFactor: number;
+  maxFactor: number;
+}
+
+export interface FactHistory {
+  seen: string[];
+  recent: string[];
+  minGap: number;
+}
+
+export interface FactRecord {
+  attempts: number;
+  accuracy: number;
+  avgMs: number;
+  lastSeen: number;
+}
+
+export type FactStore = Record<string, FactRecord>;
+
+export type FactMastery = "new" | "learning" | "automatic";
+
+export interface ParsedAnswer {
+  value: Rational;
+  simplified: boolean;
+  remainder?: number;
+}
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+
+const MAX_SEED = 0xffffffff;
+
+// mulberry32: small, fast and good enough for drawing drill operands.
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const createSeed = () => Math.floor(Math.random() * MAX_SEED) >>> 0;
+
+export const formatSeed = (seed: number) =>
+  (seed >>> 0).toString(36).toUpperCase();
+
+export const parseSeed = (code: string): number | null => {
+  const cleaned = code.trim().toLowerCase();
+  if (!/^[0-9a-z]{1,7}$/.test(cleaned)) {
+    return null;
+  }
+  const seed = parseInt(cleaned, 36);
+  return seed <= MAX_SEED ? seed : null;
+};
+
+const randomInt = (min: number, max: number, rng: Rng = Math.random) => {
+  const safeMin = Math.ceil(min);
+  const safeMax = Math.floor(max);
+  return Math.floor(rng() * (safeMax - safeMin + 1)) + safeMin;
+};
+
+const makeQuestionId = (skill: SkillKey) =>
+  `${skill}-${Date.now()}-${Math.random().toString(16).slice(2)}`;
+
+export const isSkillKey = (value: unknown): value is SkillKey =>
+  SKILL_LIST.includes(value as SkillKey);
+
+// Keyed by kind so that adding a kind without listing it here fails to build.
+const QUESTION_KINDS: Record<QuestionKind, true> = {
+  "like-add": true,
+  "like-sub": true,
+  "unlike-add": true,
+  "unlike-sub": true,
+  simplify: true,
+  "frac-mul": true,
+  "frac-div": true,
+  "mixed-add": true,
+  "mixed-sub": true,
+  "dec-add": true,
+  "dec-sub": true,
+  "dec-mul": true,
+  "dec-div": true,
+  "pct-of": true,
+  "pct-what": true,
+  "pct-reverse": true,
+  "pct-change": true,
+  square: true,
+  cube: true,
+  pow2: true,
+  pow10: true,
+  sqrt: true,
+  cbrt: true,
+  "expr-flat": true,
+  "expr-trap": true,
+  "expr-paren": true,
+  "div-remainder": true,
+  "missing-left": true,
+  "missing-right": true,
+  "int-add": true,
+  "int-sub": true,
+  "int-mul": true,
+  "int-div": true,
+};
+
+export const isQuestionKind = (value: unknown): value is QuestionKind =>
+  typeof value === "string" && Object.keys(QUESTION_KINDS).includes(value);
+
+export const isAnswerFormat = (value: unknown): value is AnswerFormat =>
+  value === "integer" ||
+  value === "fraction" ||
+  value === "mixed" ||
+  value === "decimal" ||
+  value === "remainder";
+
+export const gcd = (a: number, b: number) => {
+  let x = Math.abs(a);
+  let y = Math.abs(b);
+  while (y !== 0) {
+    const next = x % y;
+    x = y;
+    y = next;
+  }
+  return x;
+};
+
+export const lcm = (a: number, b: number) =>
+  a === 0 || b === 0 ? 0 : Math.abs(a * b) / gcd(a, b);
+
+export const makeRational = (num: number, den: number): Rational => {
+  if (num === 0) {
+    return { num: 0, den: 1 };
+  }
+  const sign = den < 0 ? -1 : 1;
+  const common = gcd(num, den);
+  return { num: (sign * num) / common, den: (sign * den) / common };
+};
+
+export const wholeNumber = (value: number): Rational => ({ num: value, den: 1 });
+
+const addRational = (a: Rational, b: Rational) =>
+  makeRational(a.num * b.den + b.num * a.den, a.den * b.den);
+
+const subRational = (a: Rational, b: Rational) =>
+  makeRational(a.num * b.den - b.num * a.den, a.den * b.den);
+
+const mulRational = (a: Rational, b: Rational) =>
+  makeRational(a.num * b.num, a.den * b.den);
+
+const divRational = (a: Rational, b: Rational) =>
+  makeRational(a.num * b.den, a.den * b.num);
+
+const compareRational = (a: Rational, b: Rational) =>
+  a.num * b.den - b.num * a.den;
+
+export const rationalEquals = (a: Rational, b: Rational) =>
+  compareRational(a, b) === 0;
+
+const MAX_DECIMAL_PLACES = 12;
+
+const decimalPlacesFor = (den: number) => {
+  for (let places = 0; places <= MAX_DECIMAL_PLACES; places += 1) {
+    if (10 ** places % den === 0) {
+      return places;
+    }
+  }
+  return null;
+};
+
+export const formatRational = (
+  value: Rational,
+  format: AnswerFormat = "fraction"
+) => {
+  const { num, den } = makeRational(value.num, value.den);
+  if (den === 1) {
+    return String(num);
+  }
+  const places = format === "decimal" ? decimalPlacesFor(den) : null;
+  if (places !== null) {
+    const scaled = Math.abs(num) * (10 ** places / den);
+    const digits = String(scaled).padStart(places + 1, "0");
+    const whole = digits.slice(0, -places);
+    const fraction = digits.slice(-places).replace(/0+$/, "");
+    return `${num < 0 ? "-" : ""}${whole}.${fraction}`;
+  }
+  const size = Math.abs(num);
+  if (format === "mixed" && size > den) {
+    const sign = num < 0 ? "-" : "";
+    return `${sign}${Math.floor(size / den)} ${size % den}/${den}`;
+  }
+  return `${num}/${den}`;
+};
+
+export const formatAnswer = (
+  question: Pick<Question, "answer" | "format" | "remainder">
+) =>
+  question.format === "remainder"
+    ? `${formatRational(question.answer)} r ${question.remainder ?? 0}`
+    : formatRational(question.answer, question.format);
+
+export const parseAnswer = (input: string): ParsedAnswer | null => {
+  const cleaned = input
+    .trim()
+    .replace(/\s*%$/, "")
+    .replace(/\s+/g, " ");
+  if (/^-?\d+$/.test(cleaned)) {
+    return { value: wholeNumber(Number(cleaned)), simplified: true };
+  }
+  const remainder = cleaned.match(/^(\d+) ?r ?(\d+)$/i);
+  if (remainder) {
+    return {
+      value: wholeNumber(Number(remainder[1])),
+      simplified: true,
+      remainder: Number(remainder[2]),
+    };
+  }
+  const decimal = cleaned.match(/^(-)?(\d*)\.(\d+)$/);
+  if (decimal) {
+    const [, sign, wholeText, fractionText] = decimal;
+    const scaled = Number(`${wholeText}${fractionText}`);
+    return {
+      value: makeRational(sign ? -scaled : scaled, 10 ** fractionText.length),
+      simplified: true,
+    };
+  }
+  const match = cleaned.match(/^(-)?(?:(\d+) )?(\d+)\/(\d+)$/);
+  if (!match) {
+    return null;
+  }
+  const [, sign, wholeText, numText, denText] = match;
+  const whole = Number(wholeText ?? 0);
+  const num = Number(numText);
+  const den = Number(denText);
+  if (den === 0 || (wholeText !== undefined && num >= den)) {
+    return null;
+  }
+  const total = (whole * den + num) * (sign ? -1 : 1);
+  return {
+    value: makeRational(total, den),
+    simplified: den !== 1 && gcd(num, den) === 1,
+  };
+};
+
+export const checkAnswer = (
+  question: Question,
+  input: string,
+  options?: { acceptUnsimplified?: boolean }
+): boolean | null => {
+  const parsed = parseAnswer(input);
+  if (!parsed) {
+    return null;
+  }
+  if (!rationalEquals(parsed.value, question.answer)) {
+    return false;
+  }
+  if (question.format === "remainder" || parsed.remainder !== undefined) {
+    return (parsed.remainder ?? 0) === (question.remainder ?? 0);
+  }
+  const requireSimplified =
+    question.kind === "simplify" || !options?.acceptUnsimplified;
+  return parsed.simplified || !requireSimplified;
+};
+
+const getLevelSpec = (
+  skill: SkillKey,
+  level: number,
+  curve: LevelCurve = DEFAULT_CURVE
+) => {
+  const specs = curve.levels[skill];
+  return specs[clamp(level - 1, 0, specs.length - 1)];
+};
+
+export const createDefaultStats = (): Stats => ({
+  add: { level: 1, streak: 0, mistakeStreak: 0, history: [] },
+  sub: { level: 1, streak: 0, mistakeStreak: 0, history: [] },
+  mul: { level: 1, streak: 0, mistakeStreak: 0, history: [] },
+  div: { level: 1, streak: 0, mistakeStreak: 0, history: [] },
+  frac: { level: 1, streak: 0, mistakeStreak: 0, history: [] },
+  dec: { level: 1, streak: 0, mistakeStreak: 0, history: [] },
+  pct: { level: 1, streak: 0, mistakeStreak: 0, history: [] },
+  pow: { level: 1, streak: 0, mistakeStreak: 0, history: [] },
+  expr: { level: 1, streak: 0, mistakeStreak: 0, history: [] },
+  int: { level: 1, streak: 0, mistakeStreak: 0, history: [] },
+});
+
+export const normalizeStats = (
+  value: unknown,
+  curve: LevelCurve = DEFAULT_CURVE
+): Stats => {
+  const stats = createDefaultStats();
+  if (!value || typeof value !== "object") {
+    return stats;
+  }
+  const saved = value as Partial<Record<SkillKey, Partial<SkillStats>>>;
+  SKILL_LIST.forEach((skill) => {
+    const entry = saved[skill];
+    if (!entry || typeof entry !== "object") {
+      return;
+    }
+    const level = Number(entry.level);
+    stats[skill] = {
+      level: Number.isFinite(level)
+        ? clamp(Math.round(level), 1, curve.levels[skill].length)
+        : 1,
+      streak: Number(entry.streak) || 0,
+      mistakeStreak: Number(entry.mistakeStreak) || 0,
+      history: Array.isArray(entry.history)
+        ? entry.history.slice(-MAX_HISTORY)
+        : [],
+    };
+    const rating = Number(entry.rating);
+    if (entry.rating !== undefined && Number.isFinite(rating)) {
+      stats[skill].rating = rating;
+    }
+  });
+  return stats;
+};
+
+const accuracyFromHistory = (history: Result[]) => {
+  if (history.length === 0) {
+    return 0;
+  }
+  const correct = history.reduce(
+    (total, item) => total + (item.correct ? 1 : 0),
+    0
+  );
+  return correct / history.length;
+};
+
+export const getAccuracy = (stats: SkillStats) =>
+  accuracyFromHistory(stats.history);
+
+export const getAverageMs = (stats: SkillStats) => {
+  if (stats.history.length === 0) {
+    return 0;
+  }
+  const total = stats.history.reduce((sum, item) => sum + item.ms, 0);
+  return total / stats.history.length;
+};
+
+export const AGE_GROUPS: AgeGroup[] = ["early", "primary", "middle", "adult"];
+export const DEFAULT_AGE_GROUP: AgeGroup = "adult";
+
+export const AGE_GROUP_LABELS: Record<AgeGroup, string> = {
+  early: "Ages 5-7",
+  primary: "Ages 8-10",
+  middle: "Ages 11-13",
+  adult: "14+",
+};
+
+const AGE_BASELINES: Record<AgeGroup, { base: number; floor: number }> = {
+  early: { base: 12000, floor: 6000 },
+  primary: { base: 9000, floor: 4000 },
+  middle: { base: 7500, floor: 3000 },
+  adult: { base: 6000, floor: 2400 },
+};
+
+const MIN_TARGET_SAMPLES = 5;
+const TARGET_PERCENTILE = 0.6;
+
+export const isAgeGroup = (value: unknown): value is AgeGroup =>
+  typeof value === "string" && AGE_GROUPS.includes(value as AgeGroup);
+
+const getBaselineMs = (level: number, ageGroup: AgeGroup) => {
+  const { base, floor } = AGE_BASELINES[ageGroup];
+  return clamp(base - level * 300, floor, base);
+};
+
+const percentile = (values: number[], rank: number) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[clamp(Math.ceil(rank * sorted.length) - 1, 0, sorted.length - 1)];
+};
+
+// Once there are enough correct answers the target follows the learner's own
+// times, kept within half to one and a half times the age baseline.
+export const getTargetMs = (
+  stats: SkillStats,
+  ageGroup: AgeGroup = DEFAULT_AGE_GROUP
+) => {
+  const baseline = getBaselineMs(stats.level, ageGroup);
+  const times = stats.history
+    .filter((item) => item.correct)
+    .map((item) => item.ms);
+  if (times.length < MIN_TARGET_SAMPLES) {
+    return baseline;
+  }
+  const personal = percentile(times, TARGET_PERCENTILE);
+  return Math.round(clamp(personal, baseline * 0.5, baseline * 1.5));
+};
+
+export const getWeakestSkill = (stats: Stats): SkillKey => {
+  let weakest: SkillKey = MIX_SKILLS[0];
+  let weakestScore = 1;
+  const candidates = SKILL_LIST.filter(
+    (skill) =>
+      MIX_SKILLS.includes(skill) || stats[skill].history.length > 0
+  );
+
+  candidates.forEach((skill) => {
+    const history = stats[skill].history;
+    const score = history.length === 0 ? 0.55 : accuracyFromHistory(history);
+    if (score < weakestScore) {
+      weakestScore = score;
+      weakest = skill;
+    }
+  });
+
+  return weakest;
+};
+
+export const pickSkill = (stats: Stats, rng: Rng = Math.random): SkillKey => {
+  const weighted = MIX_SKILLS.map((skill) => {
+    const history = stats[skill].history;
+    const accuracy = history.length === 0 ? 0.55 : accuracyFromHistory(history);
+    const weight = Math.max(0.15, 1 - accuracy);
+    return { skill, weight };
+  });
+
+  const total = weighted.reduce((sum, item) => sum + item.weight, 0);
+  let roll = rng() * total;
+
+  for (const item of weighted) {
+    roll -= item.weight;
+    if (roll <= 0) {
+      return item.skill;
+    }
+  }
+
+  return "add";
+};
+
+export const ADAPTIVITY_ENGINES: AdaptivityEngine[] = ["streak", "rating"];
+export const DEFAULT_ENGINE: AdaptivityEngine = "streak";
+export const TARGET_SUCCESS = 0.8;
+
+const BASE_RATING = 1000;
+const LEVEL_RATING_STEP = 50;
+const RATING_SCALE = 400;
+// Rating margin over a level at which the expected success is TARGET_SUCCESS.
+const TARGET_MARGIN =
+  RATING_SCALE * Math.log10(TARGET_SUCCESS / (1 - TARGET_SUCCESS));
+
+export const isAdaptivityEngine = (value: unknown): value is AdaptivityEngine =>
+  typeof value === "string" &&
+  ADAPTIVITY_ENGINES.includes(value as AdaptivityEngine);
+
+export const TIMING_MODES: TimingMode[] = [
+  "question",
+  "soft",
+  "session",
+  "none",
+];
+export const DEFAULT_TIMING: TimingMode = "question";
+
+export const isTimingMode = (value: unknown): value is TimingMode =>
+  typeof value === "string" && TIMING_MODES.includes(value as TimingMode);
+
+// How far past the target a correct answer may run and still count as fast.
+// Without a clock on each question the target is only advice, so slower
+// answers still move a level, while a very slow one does not.
+const TIMING_SLACK: Record<TimingMode, number> = {
+  question: 1,
+  soft: 1,
+  session: 1.25,
+  none: 1.5,
+};
+
+export const getPaceMs = (
+  stats: SkillStats,
+  ageGroup: AgeGroup = DEFAULT_AGE_GROUP,
+  timing: TimingMode = DEFAULT_TIMING
+) => Math.round(getTargetMs(stats, ageGroup) * TIMING_SLACK[timing]);
+
+export const getLevelRating = (level: number) =>
+  BASE_RATING + (level - 1) * LEVEL_RATING_STEP;
+
+export const getSkillRating = (stats: SkillStats) =>
+  stats.rating ?? getLevelRating(stats.level) + TARGET_MARGIN;
+
+// Rating points per point of difficulty score away from the skill's recent
+// average, so a hard question at a level is rated above an easy one.
+const DIFFICULTY_RATING = 20;
+
+const getTypicalDifficulty = (stats: SkillStats) => {
+  const scores = stats.history.flatMap((result) =>
+    result.difficulty === undefined ? [] : [result.difficulty]
+  );
+  return scores.length > 0
+    ? scores.reduce((sum, score) => sum + score, 0) / scores.length
+    : null;
+};
+
+// Kept within one level either way so a single odd question cannot outweigh
+// the level it was asked at.
+export const getDifficultyOffset = (stats: SkillStats, difficulty?: number) => {
+  const typical = getTypicalDifficulty(stats);
+  return difficulty === undefined || typical === null
+    ? 0
+    : clamp(
+        (difficulty - typical) * DIFFICULTY_RATING,
+        -LEVEL_RATING_STEP,
+        LEVEL_RATING_STEP
+      );
+};
+
+export const getExpectedSuccess = (
+  rating: number,
+  level: number,
+  offset = 0
+) =>
+  1 /
+  (1 + 10 ** ((getLevelRating(level) + offset - rating) / RATING_SCALE));
+
+// The displayed level is the hardest one still expected to be answered
+// correctly about TARGET_SUCCESS of the time.
+export const ratingToLevel = (rating: number, levelMax: number) =>
+  clamp(
+    Math.round((rating - TARGET_MARGIN - BASE_RATING) / LEVEL_RATING_STEP) + 1,
+    1,
+    levelMax
+  );
+
+export const updateStats = (
+  stats: Stats,
+  skill: SkillKey,
+  correct: boolean,
+  ms: number,
+  options?: {
+    curve?: LevelCurve;
+    ageGroup?: AgeGroup;
+    engine?: AdaptivityEngine;
+    timing?: TimingMode;
+    level?: number;
+    difficulty?: number;
+  }
+): Stats => {
+  const current = stats[skill];
+  const result: Result =
+    options?.difficulty === undefined
+      ? { correct, ms }
+      : { correct, ms, difficulty: options.difficulty };
+  const nextHistory = [...current.history, result].slice(-MAX_HISTORY);
+  const nextStreak = correct ? current.streak + 1 : 0;
+  const nextMistakeStreak = correct ? 0 : current.mistakeStreak + 1;
+  const levelMax = (options?.curve ?? DEFAULT_CURVE).levels[skill].length;
+  let nextLevel = current.level;
+  let leveledUp = false;
+  let leveledDown = false;
+
+  const paceMs = getPaceMs(current, options?.ageGroup, options?.timing);
+  // The streak engine moves levels on its own, so it drops any rating and a
+  // switch back to the rating engine starts again from the level reached.
+  let nextRating: number | undefined;
+
+  if (options?.engine === "rating") {
+    const rating = getSkillRating(current);
+    const expected = getExpectedSuccess(
+      rating,
+      options.level ?? current.level,
+      getDifficultyOffset(current, options.difficulty)
+    );
+    const score = correct ? (ms <= paceMs ? 1 : 0.7) : 0;
+    const factor = current.history.length < MAX_HISTORY ? 64 : 32;
+    nextRating = Math.round(rating + factor * (score - expected));
+    nextLevel = ratingToLevel(nextRating, levelMax);
+    leveledUp = nextLevel > current.level;
+    leveledDown = nextLevel < current.level;
+  } else {
+    if (correct && nextStreak >= 3 && ms <= paceMs) {
+      nextLevel = clamp(current.level + 1, 1, levelMax);
+      leveledUp = nextLevel !== current.level;
+    }
+
+    if (!correct && nextMistakeStreak >= 2) {
+      nextLevel = clamp(current.level - 1, 1, levelMax);
+      leveledDown = nextLevel !== current.level;
+    }
+  }
+
+  return {
+    ...stats,
+    [skill]: {
+      ...current,
+      level: nextLevel,
+      streak: correct && !leveledUp ? nextStreak : 0,
+      mistakeStreak: !correct && !leveledDown ? nextMistakeStreak : 0,
+      history: nextHistory,
+      rating: nextRating,
+    },
+  };
+};
+
+interface MixedNumber {
+  whole: number;
+  part: Rational;
+}
+
+const formatMixed = ({ whole, part }: MixedNumber) =>
+  `${whole} ${part.num}/${part.den}`;
+
+const mixedToRational = ({ whole, part }: MixedNumber) =>
+  addRational(wholeNumber(whole), part);
+
+const generateFractionQuestion = (
+  spec: LevelSpec,
+  level: number,
+  rng: Rng
+): Question => {
+  const kinds = spec.kinds ?? ["like-add"];
+  const kind = kinds[randomInt(0, kinds.length - 1, rng)];
+  const minDen = Math.max(2, spec.minB ?? 2);
+  const maxDen = Math.max(minDen, spec.maxB);
+  const pickDen = () => randomInt(minDen, maxDen, rng);
+  const pickOtherDen = (den: number) => {
+    for (let attempt = 0; attempt < 8; attempt += 1) {
+      const next = pickDen();
+      if (next !== den) {
+        return next;
+      }
+    }
+    return den * 2;
+  };
+  const pickProper = (den: number): Rational => ({
+    num: randomInt(1, den - 1, rng),
+    den,
+  });
+  const build = (
+    text: string,
+    answer: Rational,
+    format: AnswerFormat = "fraction"
+  ): Question => ({
+    id: makeQuestionId("frac"),
+    text,
+    answer,
+    format,
+    kind,
+    skill: "frac",
+    level,
+  });
+  const show = (value: Rational) => `${value.num}/${value.den}`;
+
+  if (kind === "simplify") {
+    const den = pickDen();
+    const reduced = makeRational(randomInt(1, den - 1, rng), den);
+    const factor = randomInt(2, Math.max(2, spec.maxA), rng);
+    return build(
+      `Simplify ${reduced.num * factor}/${reduced.den * factor}`,
+      reduced
+    );
+  }
+
+  if (kind === "like-add") {
+    const den = pickDen();
+    const left = pickProper(den);
+    const right = pickProper(den);
+    return build(`${show(left)} + ${show(right)}`, addRational(left, right));
+  }
+
+  if (kind === "like-sub") {
+    const den = Math.max(3, pickDen());
+    const high = randomInt(2, den - 1, rng);
+    const left = { num: high, den };
+    const right = { num: randomInt(1, high - 1, rng), den };
+    return build(`${show(left)} - ${show(right)}`, subRational(left, right));
+  }
+
+  if (kind === "unlike-add" || kind === "unlike-sub") {
+    const leftDen = pickDen();
+    let left = pickProper(leftDen);
+    let right = pickProper(pickOtherDen(leftDen));
+    if (kind === "unlike-add") {
+      return build(`${show(left)} + ${show(right)}`, addRational(left, right));
+    }
+    if (compareRational(left, right) === 0) {
+      if (right.num > 1) {
+        right = { num: right.num - 1, den: right.den };
+      } else {
+        left = { num: left.num - 1, den: left.den };
+      }
+    }
+    if (compareRational(left, right) < 0) {
+      [left, right] = [right, left];
+    }
+    return build(`${show(left)} - ${show(right)}`, subRational(left, right));
+  }
+
+  if (kind === "frac-mul" || kind === "frac-div") {
+    const left = pickProper(pickDen());
+    const right = pickProper(pickDen());
+    return kind === "frac-mul"
+      ? build(`${show(left)} x ${show(right)}`, mulRational(left, right))
+      : build(`${show(left)} ÷ ${show(right)}`, divRational(left, right));
+  }
+
+  const maxWhole = Math.max(1, spec.maxA);
+  const pickMixed = (): MixedNumber => ({
+    whole: randomInt(1, maxWhole, rng),
+    part: pickProper(pickDen()),
+  });
+  let left = pickMixed();
+  let right = pickMixed();
+  if (kind === "mixed-add") {
+    return build(
+      `${formatMixed(left)} + ${formatMixed(right)}`,
+      addRational(mixedToRational(left), mixedToRational(right)),
+      "mixed"
+    );
+  }
+  if (compareRational(mixedToRational(left), mixedToRational(right)) === 0) {
+    left = { ...left, whole: left.whole + 1 };
+  }
+  if (compareRational(mixedToRational(left), mixedToRational(right)) < 0) {
+    [left, right] = [right, left];
+  }
+  return build(
+    `${formatMixed(left)} - ${formatMixed(right)}`,
+    subRational(mixedToRational(left), mixedToRational(right)),
+    "mixed"
+  );
+};
+
+const generateDecimalQuestion = (
+  spec: LevelSpec,
+  level: number,
+  rng: Rng
+): Question => {
+  const kinds = spec.kinds ?? ["dec-add"];
+  const kind = kinds[randomInt(0, kinds.length - 1, rng)];
+  const scale = 10 ** (spec.places ?? 1);
+  const show = (scaled: number) =>
+    formatRational(makeRational(scaled, scale), "decimal");
+  const build = (text: string, scaledAnswer: number): Question => ({
+    id: makeQuestionId("dec"),
+    text,
+    answer: makeRational(scaledAnswer, scale),
+    format: "decimal",
+    kind,
+    skill: "dec",
+    level,
+  });
+
+  if (kind === "dec-add" || kind === "dec-sub") {
+    const a = randomInt((spec.minA ?? 0) * scale + 1, spec.maxA * scale, rng);
+    const b = randomInt((spec.minB ?? 0) * scale + 1, spec.maxB * scale, rng);
+    if (kind === "dec-add") {
+      return build(`${show(a)} + ${show(b)}`, a + b);
+    }
+    const high = Math.max(a, b);
+    const low = Math.min(a, b);
+    return build(`${show(high)} - ${show(low)}`, high - low);
+  }
+
+  const whole = randomInt(Math.max(2, spec.minB ?? 2), spec.maxB, rng);
+  const a = randomInt((spec.minA ?? 0) * scale + 1, spec.maxA * scale, rng);
+  if (kind === "dec-mul") {
+    return build(`${show(a)} x ${whole}`, a * whole);
+  }
+  return build(`${show(a * whole)} / ${whole}`, a);
+};
+
+const generatePercentQuestion = (
+  spec: LevelSpec,
+  level: number,
+  rng: Rng
+): Question => {
+  const kinds = spec.kinds ?? ["pct-of"];
+  const kind = kinds[randomInt(0, kinds.length - 1, rng)];
+  const percent = spec.pool
+    ? spec.pool[randomInt(0, spec.pool.length - 1, rng)]
+    : randomInt(spec.minB ?? 1, spec.maxB, rng);
+  // Keep every answer whole: the base is a multiple of 100 / gcd(p, 100).
+  const unit = 100 / gcd(percent, 100);
+  const whole =
+    unit * randomInt(1, Math.max(1, Math.floor(spec.maxA / unit)), rng);
+  const part = (percent * whole) / 100;
+  const build = (text: string, answer: number): Question => ({
+    id: makeQuestionId("pct"),
+    text,
+    answer: wholeNumber(answer),
+    format: "integer",
+    kind,
+    skill: "pct",
+    level,
+  });
+
+  if (kind === "pct-what") {
+    return build(`${part} is what % of ${whole}`, percent);
+  }
+  if (kind === "pct-reverse") {
+    return build(`${percent}% of ? = ${part}`, whole);
+  }
+  if (kind === "pct-change") {
+    const increase = percent >= 100 || rng() < 0.5;
+    return increase
+      ? build(`${whole} to ${whole + part}: % increase`, percent)
+      : build(`${whole} to ${whole - part}: % decrease`, percent);
+  }
+  return build(`${percent}% of ${whole}`, part);
+};
+
+const SUPERSCRIPT_DIGITS = "⁰¹²³⁴⁵⁶⁷⁸⁹";
+
+export const toSuperscript = (value: number) =>
+  String(value).replace(/\d/g, (digit) => SUPERSCRIPT_DIGITS[Number(digit)]);
+
+const generatePowerQuestion = (
+  spec: LevelSpec,
+  level: number,
+  rng: Rng
+): Question => {
+  const kinds = spec.kinds ?? ["square"];
+  const kind = kinds[randomInt(0, kinds.length - 1, rng)];
+  const build = (text: string, answer: number): Question => ({
+    id: makeQuestionId("pow"),
+    text,
+    answer: wholeNumber(answer),
+    format: "integer",
+    kind,
+    skill: "pow",
+    level,
+  });
+  const squareBase = randomInt(spec.minA ?? 1, spec.maxA, rng);
+  const cubeBase = randomInt(spec.minB ?? 1, spec.maxB, rng);
+
+  if (kind === "sqrt") {
+    return build(`√${squareBase * squareBase}`, squareBase);
+  }
+  if (kind === "cube") {
+    return build(`${cubeBase}${toSuperscript(3)}`, cubeBase ** 3);
+  }
+  if (kind === "cbrt") {
+    return build(`∛${cubeBase ** 3}`, cubeBase);
+  }
+  if (kind === "pow2" || kind === "pow10") {
+    const base = kind === "pow2" ? 2 : 10;
+    const exponent = randomInt(
+      kind === "pow2" ? 2 : 1,
+      spec.maxExponent ?? 6,
+      rng
+    );
+    return build(`${base}${toSuperscript(exponent)}`, base ** exponent);
+  }
+  return build(`${squareBase}${toSuperscript(2)}`, squareBase ** 2);
+};
+
+const PRECEDENCE: Record<Operator, number> = { "+": 1, "-": 1, x: 2, "/": 2 };
+
+const applyOperator = (op: Operator, left: number, right: number) => {
+  if (op === "+") {
+    return left + right;
+  }
+  if (op === "-") {
+    return left - right;
+  }
+  if (op === "x") {
+    return left * right;
+  }
+  return left / right;
+};
+
+export const evaluateExpression = (node: ExpressionNode): number =>
+  node.type === "number"
+    ? node.value
+    : applyOperator(
+        node.op,
+        evaluateExpression(node.left),
+        evaluateExpression(node.right)
+      );
+
+export const formatExpression = (node: ExpressionNode): string => {
+  if (node.type === "number") {
+    return String(node.value);
+  }
+  const wrap = (child: ExpressionNode, isRight: boolean) => {
+    const text = formatExpression(child);
+    if (child.type === "number") {
+      return text;
+    }
+    const lower = PRECEDENCE[child.op] < PRECEDENCE[node.op];
+    const sameOnRight =
+      isRight &&
+      PRECEDENCE[child.op] === PRECEDENCE[node.op] &&
+      (node.op === "-" || node.op === "/");
+    return lower || sameOnRight ? `(${text})` : text;
+  };
+  return `${wrap(node.left, false)} ${node.op} ${wrap(node.right, true)}`;
+};
+
+export const parseExpression = (text: string): ExpressionNode | null => {
+  const tokens = text.match(/\d+|[-+x/()]|\S/g) ?? [];
+  let index = 0;
+
+  const parseFactor = (): ExpressionNode | null => {
+    const token = tokens[index];
+    if (token === "(") {
+      index += 1;
+      const inner = parseSum();
+      if (!inner || tokens[index] !== ")") {
+        return null;
+      }
+      index += 1;
+      return inner;
+    }
+    if (token === "-" && /^\d+$/.test(tokens[index + 1] ?? "")) {
+      index += 2;
+      return { type: "number", value: -Number(tokens[index - 1]) };
+    }
+    if (token !== undefined && /^\d+$/.test(token)) {
+      index += 1;
+      return { type: "number", value: Number(token) };
+    }
+    return null;
+  };
+
+  const parseChain = (
+    parseOperand: () => ExpressionNode | null,
+    operators: Operator[]
+  ) => {
+    let left = parseOperand();
+    while (left && operators.includes(tokens[index] as Operator)) {
+      const op = tokens[index] as Operator;
+      index += 1;
+      const right = parseOperand();
+      if (!right) {
+        return null;
+      }
+      left = { type: "op", op, left, right };
+    }
+    return left;
+  };
+
+  const parseProduct = () => parseChain(parseFactor, ["x", "/"]);
+  const parseSum = (): ExpressionNode | null =>
+    parseChain(parseProduct, ["+", "-"]);
+
+  const tree = parseSum();
+  return tree && index === tokens.length ? tree : null;
+};
+
+const evaluateLeftToRight = (node: ExpressionNode) => {
+  const values: number[] = [];
+  const ops: Operator[] = [];
+  const walk = (current: ExpressionNode) => {
+    if (current.type === "number") {
+      values.push(current.value);
+      return;
+    }
+    walk(current.left);
+    ops.push(current.op);
+    walk(current.right);
+  };
+  walk(node);
+  return ops.reduce(
+    (total, op, index) => applyOperator(op, total, values[index + 1]),
+    values[0]
+  );
+};
+
+const buildExpressionTree = (
+  terms: number,
+  spec: LevelSpec,
+  rng: Rng
+): ExpressionNode => {
+  if (terms <= 1) {
+    return { type: "number", value: randomInt(spec.minA ?? 1, spec.maxA, rng) };
+  }
+  const operators = spec.operators ?? ["+", "-"];
+  const leftTerms = randomInt(1, terms - 1, rng);
+  let op = operators[randomInt(0, operators.length - 1, rng)];
+  let left = buildExpressionTree(leftTerms, spec, rng);
+  let right = buildExpressionTree(terms - leftTerms, spec, rng);
+  const maxFactor = Math.max(2, spec.maxB);
+
+  if (op === "/") {
+    const dividend = evaluateExpression(left);
+    const divisors: number[] = [];
+    for (let divisor = 2; divisor <= maxFactor; divisor += 1) {
+      if (dividend > 0 && dividend % divisor === 0) {
+        divisors.push(divisor);
+      }
+    }
+    if (right.type === "number" && divisors.length > 0) {
+      right = {
+        type: "number",
+        value: divisors[randomInt(0, divisors.length - 1, rng)],
+      };
+    } else {
+      op = "+";
+    }
+  }
+  if (
+    op === "x" &&
+    evaluateExpression(left) > maxFactor &&
+    evaluateExpression(right) > maxFactor
+  ) {
+    op = "+";
+  }
+  if (op === "-" && evaluateExpression(left) < evaluateExpression(right)) {
+    [left, right] = [right, left];
+  }
+  return { type: "op", op, left, right };
+};
+
+const MAX_EXPRESSION_ATTEMPTS = 40;
+
+const generateExpressionQuestion = (
+  spec: LevelSpec,
+  level: number,
+  rng: Rng
+): Question => {
+  const kinds = spec.kinds ?? ["expr-flat"];
+  const kind = kinds[randomInt(0, kinds.length - 1, rng)];
+  const matchesKind = (tree: ExpressionNode) => {
+    const hasParens = formatExpression(tree).includes("(");
+    if (kind === "expr-paren") {
+      return hasParens;
+    }
+    if (kind === "expr-trap") {
+      return (
+        !hasParens && evaluateLeftToRight(tree) !== evaluateExpression(tree)
+      );
+    }
+    return !hasParens;
+  };
+  let tree = buildExpressionTree(spec.terms ?? 3, spec, rng);
+  for (
+    let attempt = 1;
+    attempt < MAX_EXPRESSION_ATTEMPTS && !matchesKind(tree);
+    attempt += 1
+  ) {
+    tree = buildExpressionTree(spec.terms ?? 3, spec, rng);
+  }
+  return {
+    id: makeQuestionId("expr"),
+    text: formatExpression(tree),
+    answer: wholeNumber(evaluateExpression(tree)),
+    format: "integer",
+    kind,
+    skill: "expr",
+    level,
+  };
+};
+
+export const formatSigned = (value: number, wrapNegative = true) =>
+  value < 0 && wrapNegative ? `(${value})` : String(value);
+
+const generateIntegerQuestion = (
+  spec: LevelSpec,
+  level: number,
+  rng: Rng
+): Question => {
+  const kinds = spec.kinds ?? ["int-add"];
+  const kind = kinds[randomInt(0, kinds.length - 1, rng)];
+  const additive = kind === "int-add" || kind === "int-sub";
+  const pick = () =>
+    additive
+      ? randomInt(spec.minA ?? 1, spec.maxA, rng)
+      : randomInt(Math.max(1, spec.minB ?? 1), spec.maxB, rng);
+  const signs = spec.signs ?? "both";
+  let flipLeft = signs === "right" ? false : rng() < 0.5;
+  const flipRight =
+    signs === "right" ? true : signs === "either" ? !flipLeft : rng() < 0.5;
+  if (!flipLeft && !flipRight) {
+    flipLeft = true;
+  }
+  let left = flipLeft ? -pick() : pick();
+  const right = flipRight ? -pick() : pick();
+  let answer: number;
+  let symbol: string;
+  if (kind === "int-add") {
+    answer = left + right;
+    symbol = "+";
+  } else if (kind === "int-sub") {
+    answer = left - right;
+    symbol = "-";
+  } else if (kind === "int-mul") {
+    answer = left * right;
+    symbol = "x";
+  } else {
+    answer = left;
+    left *= right;
+    symbol = "/";
+  }
+  return {
+    id: makeQuestionId("int"),
+    text: `${formatSigned(left, false)} ${symbol} ${formatSigned(right)}`,
+    answer: wholeNumber(answer),
+    format: "integer",
+    kind,
+    skill: "int",
+    level,
+  };
+};
+
+type UnknownSlot = "result" | "left" | "right";
+
+const pickUnknownSlot = (mode: UnknownMode, rng: Rng): UnknownSlot => {
+  if (mode === "result") {
+    return "result";
+  }
+  const slots: UnknownSlot[] =
+    mode === "mixed" ? ["result", "left", "right"] : ["left", "right"];
+  return slots[randomInt(0, slots.length - 1, rng)];
+};
+
+// A hidden operand must be the only number that fits: ? x 0 = 0 is not.
+const isAmbiguousSlot = (
+  skill: SkillKey,
+  slot: UnknownSlot,
+  left: number,
+  right: number
+) =>
+  (skill === "mul" &&
+    ((slot === "left" && right === 0) || (slot === "right" && left === 0))) ||
+  (skill === "div" && slot === "right" && left === 0);
+
+const buildBinaryQuestion = (
+  skill: SkillKey,
+  level: number,
+  left: number,
+  right: number,
+  result: number,
+  unknown: UnknownMode,
+  rng: Rng
+): Question => {
+  let slot = pickUnknownSlot(unknown, rng);
+  if (isAmbiguousSlot(skill, slot, left, right)) {
+    slot = slot === "left" ? "right" : "left";
+  }
+  if (isAmbiguousSlot(skill, slot, left, right)) {
+    slot = "result";
+  }
+  const symbol = SKILL_SYMBOLS[skill];
+  if (slot === "result") {
+    return {
+      id: makeQuestionId(skill),
+      text: `${left} ${symbol} ${right}`,
+      answer: wholeNumber(result),
+      format: "integer",
+      skill,
+      level,
+    };
+  }
+  return {
+    id: makeQuestionId(skill),
+    text:
+      slot === "left"
+        ? `? ${symbol} ${right} = ${result}`
+        : `${left} ${symbol} ? = ${result}`,
+    answer: wholeNumber(slot === "left" ? left : right),
+    format: "integer",
+    kind: slot === "left" ? "missing-left" : "missing-right",
+    skill,
+    level,
+  };
+};
+
+// Resolves a plain or missing-operand core question to its two operands.
+const getCoreOperands = (question: Question) => {
+  if (
+    !MIX_SKILLS.includes(question.skill) ||
+    question.format !== "integer" ||
+    question.answer.den !== 1 ||
+    (question.kind !== undefined &&
+      question.kind !== "missing-left" &&
+      question.kind !== "missing-right")
+  ) {
+    return null;
+  }
+  const match = question.text.match(/^(\?|\d+) [+\-x/] (\?|\d+)(?: = -?\d+)?$/);
+  if (!match) {
+    return null;
+  }
+  return {
+    left: match[1] === "?" ? question.answer.num : Number(match[1]),
+    right: match[2] === "?" ? question.answer.num : Number(match[2]),
+  };
+};
+
+const countDigits = (value: number) => String(Math.abs(value)).length;
+
+const countCarries = (a: number, b: number) => {
+  let carries = 0;
+  let carry = 0;
+  let top = a;
+  let bottom = b;
+  while (top > 0 || bottom > 0) {
+    carry = (top % 10) + (bottom % 10) + carry >= 10 ? 1 : 0;
+    carries += carry;
+    top = Math.floor(top / 10);
+    bottom = Math.floor(bottom / 10);
+  }
+  return carries;
+};
+
+// Counts column borrows for a - b (a >= b) and whether any borrow has to pass
+// through a zero digit, as in 302 - 158.
+const countBorrows = (a: number, b: number) => {
+  let borrows = 0;
+  let borrow = 0;
+  let acrossZero = false;
+  let top = a;
+  let bottom = b;
+  while (top > 0) {
+    const digit = top % 10;
+    if (borrow && digit === 0) {
+      acrossZero = true;
+    }
+    borrow = digit - borrow < bottom % 10 ? 1 : 0;
+    borrows += borrow;
+    top = Math.floor(top / 10);
+    bottom = Math.floor(bottom / 10);
+  }
+  return { borrows, acrossZero };
+};
+
+export const REGROUP_MODES: RegroupMode[] = [
+  "any",
+  "none",
+  "one",
+  "every",
+  "zero",
+];
+const MAX_REGROUP_ATTEMPTS = 200;
+
+export const isRegroupMode = (value: unknown): value is RegroupMode =>
+  typeof value === "string" && REGROUP_MODES.includes(value as RegroupMode);
+
+// "every" means each column that can regroup does; for subtraction the
+// leading column never borrows. "zero" only applies to subtraction.
+const matchesRegroup = (
+  skill: SkillKey,
+  a: number,
+  b: number,
+  mode: RegroupMode
+) => {
+  const high = Math.max(a, b);
+  const low = Math.min(a, b);
+  if (skill === "add") {
+    const carries = countCarries(a, b);
+    return mode === "none"
+      ? carries === 0
+      : mode === "one"
+        ? carries === 1
+        : mode === "every"
+          ? carries >= countDigits(high)
+          : true;
+  }
+  const { borrows, acrossZero } = countBorrows(high, low);
+  return mode === "none"
+    ? borrows === 0
+    : mode === "one"
+      ? borrows === 1
+      : mode === "every"
+        ? borrows > 0 && borrows >= countDigits(high) - 1
+        : acrossZero;
+};
+
+const drawOperands = (spec: LevelSpec, rng: Rng) => [
+  randomInt(spec.minA ?? 0, spec.maxA, rng),
+  randomInt(spec.minB ?? 0, spec.maxB, rng),
+];
+
+// How many of a fixed run of MAX_REGROUP_ATTEMPTS draws must meet a mode for
+// the level to count as able to ask it; fewer, and the redraws in
+// pickOperands could run out before finding one.
+const REGROUP_MIN_HITS = 10;
+
+// Modes that do not apply to a skill ("zero" for addition, anything for
+// multiplication and division) are always met.
+export const canMeetRegroup = (
+  skill: SkillKey,
+  level: number,
+  mode: RegroupMode,
+  curve?: LevelCurve
+) => {
+  if (mode === "any" || (skill !== "add" && skill !== "sub")) {
+    return true;
+  }
+  if (mode === "zero" && skill === "add") {
+    return true;
+  }
+  const spec = getLevelSpec(skill, level, curve);
+  const rng = createRng(level);
+  let hits = 0;
+  for (let attempt = 0; attempt < MAX_REGROUP_ATTEMPTS; attempt += 1) {
+    const [a, b] = drawOperands(spec, rng);
+    hits += matchesRegroup(skill, a, b, mode) ? 1 : 0;
+  }
+  return hits >= REGROUP_MIN_HITS;
+};
+
+// A table focus replaces the level range for multiplication and division.
+// Regrouping constraints are met by redrawing; if the level's range cannot
+// satisfy one (see canMeetRegroup) the last draw is used.
+const pickOperands = (
+  skill: SkillKey,
+  spec: LevelSpec,
+  options: QuestionOptions | undefined,
+  rng: Rng
+) => {
+  const focus = options?.tables;
+  if (focus && focus.tables.length > 0 && (skill === "mul" || skill === "div")) {
+    const table = focus.tables[randomInt(0, focus.tables.length - 1, rng)];
+    const factor = randomInt(focus.minFactor, focus.maxFactor, rng);
+    return skill === "mul" && rng() < 0.5 ? [factor, table] : [table, factor];
+  }
+  const mode = options?.regroup ?? "any";
+  const draw = () => drawOperands(spec, rng);
+  let [a, b] = draw();
+  if (mode === "any" || (skill !== "add" && skill !== "sub")) {
+    return [a, b];
+  }
+  for (
+    let attempt = 1;
+    attempt < MAX_REGROUP_ATTEMPTS && !matchesRegroup(skill, a, b, mode);
+    attempt += 1
+  ) {
+    [a, b] = draw();
+  }
+  return [a, b];
+};
+
+const EASY_FACTORS = [0, 1, 2, 5, 10];
+
+const scoreProduct = (a: number, b: number) => {
+  const hardFactors = [a, b].filter(
+    (value) => !EASY_FACTORS.includes(value) && value % 10 !== 0
+  ).length;
+  let carries = 0;
+  String(b)
+    .split("")
+    .forEach((digit) => {
+      let carry = 0;
+      String(a)
+        .split("")
+        .reverse()
+        .forEach((place) => {
+          carry = Math.floor((Number(place) * Number(digit) + carry) / 10);
+          carries += carry > 0 ? 1 : 0;
+        });
+    });
+  return countDigits(a) + countDigits(b) - 2 + hardFactors + carries;
+};
+
+// A rough cognitive load score: extra digits, regroupings, awkward factors
+// and, for other skills, how many numbers and operations have to be held.
+export const scoreDifficulty = (question: Question) => {
+  const operands = getCoreOperands(question);
+  if (!operands) {
+    const numbers = question.text.match(/\d+/g) ?? [];
+    const digits = numbers.reduce((sum, value) => sum + value.length - 1, 0);
+    return Math.max(0, numbers.length - 2) + digits;
+  }
+  const { left, right } = operands;
+  const missing = question.kind ? 1 : 0;
+  if (question.skill === "add") {
+    return (
+      Math.max(countDigits(left), countDigits(right)) -
+      1 +
+      2 * countCarries(left, right) +
+      missing
+    );
+  }
+  if (question.skill === "sub") {
+    if (left < right) {
+      return countDigits(right) + 1 + missing;
+    }
+    const { borrows, acrossZero } = countBorrows(left, right);
+    return (
+      countDigits(left) - 1 + 2 * borrows + (acrossZero ? 1 : 0) + missing
+    );
+  }
+  if (question.skill === "mul") {
+    return scoreProduct(left, right) + missing;
+  }
+  return right === 0 ? 0 : scoreProduct(right, left / right) + 1 + missing;
+};
+
+export const DIFFICULTY_BANDS: DifficultyBand[] = [
+  "any",
+  "easy",
+  "medium",
+  "hard",
+];
+const BAND_SAMPLES = 6;
+
+export const isDifficultyBand = (value: unknown): value is DifficultyBand =>
+  typeof value === "string" && DIFFICULTY_BANDS.includes(value as DifficultyBand);
+
+// With a band set, several candidates are drawn at the level and one is taken
+// from the easiest, middle or hardest third by difficulty score. Otherwise,
+// with stats to aim at, the candidate whose expected success is closest to
+// TARGET_SUCCESS is taken.
+export const generateQuestion = (
+  skill: SkillKey,
+  level: number,
+  options?: QuestionOptions
+): Question => {
+  const draw = () => {
+    const question = buildQuestion(skill, level, options);
+    return { ...question, difficulty: scoreDifficulty(question) };
+  };
+  const band = options?.band ?? "any";
+  const aim = options?.aim;
+  if (band === "any" && aim) {
+    const rating = getSkillRating(aim);
+    const getMiss = (question: Question) =>
+      Math.abs(
+        getExpectedSuccess(
+          rating,
+          level,
+          getDifficultyOffset(aim, question.difficulty)
+        ) - TARGET_SUCCESS
+      );
+    return Array.from({ length: BAND_SAMPLES }, draw).reduce((best, next) =>
+      getMiss(next) < getMiss(best) ? next : best
+    );
+  }
+  if (band === "any") {
+    return draw();
+  }
+  const candidates = Array.from({ length: BAND_SAMPLES }, draw).sort(
+    (a, b) => a.difficulty - b.difficulty
+  );
+  const third = BAND_SAMPLES / 3;
+  const start = (DIFFICULTY_BANDS.indexOf(band) - 1) * third;
+  return candidates[start + randomInt(0, third - 1, options?.rng)];
+};
+
+const buildQuestion = (
+  skill: SkillKey,
+  level: number,
+  options?: QuestionOptions
+): Question => {
+  const spec = getLevelSpec(skill, level, options?.curve);
+  const rng = options?.rng ?? Math.random;
+  if (skill === "frac") {
+    return generateFractionQuestion(spec, level, rng);
+  }
+  if (skill === "dec") {
+    return generateDecimalQuestion(spec, level, rng);
+  }
+  if (skill === "pct") {
+    return generatePercentQuestion(spec, level, rng);
+  }
+  if (skill === "pow") {
+    return generatePowerQuestion(spec, level, rng);
+  }
+  if (skill === "expr") {
+    return generateExpressionQuestion(spec, level, rng);
+  }
+  if (skill === "int") {
+    return generateIntegerQuestion(spec, level, rng);
+  }
+  const [a, b] = pickOperands(skill, spec, options, rng);
+  const unknown = options?.unknown ?? "result";
+
+  if (skill === "add") {
+    return buildBinaryQuestion(skill, level, a, b, a + b, unknown, rng);
+  }
+
+  if (skill === "sub") {
+    const allowNegative = options?.allowNegative ?? spec.allowNegative ?? false;
+    const high = allowNegative ? a : Math.max(a, b);
+    const low = allowNegative ? b : Math.min(a, b);
+    return buildBinaryQuestion(
+      skill,
+      level,
+      high,
+      low,
+      high - low,
+      unknown,
+      rng
+    );
+  }
+
+  if (skill === "mul") {
+    return buildBinaryQuestion(skill, level, a, b, a * b, unknown, rng);
+  }
+
+  if (options?.remainders) {
+    const divisor = Math.max(2, a);
+    const quotient = Math.max(1, b);
+    const remainder = randomInt(1, divisor - 1, rng);
+    return {
+      id: makeQuestionId(skill),
+      text: `${divisor * quotient + remainder} / ${divisor}`,
+      answer: wholeNumber(quotient),
+      format: "remainder",
+      remainder,
+      kind: "div-remainder",
+      skill,
+      level,
+    };
+  }
+
+  const divisor = Math.max(1, a);
+  const quotient = b;
+  const dividend = divisor * quotient;
+  return buildBinaryQuestion(
+    skill,
+    level,
+    dividend,
+    divisor,
+    quotient,
+    unknown,
+    rng
+  );
+};
+
+const MAX_UNIQUE_ATTEMPTS = 40;
+export const DEFAULT_FACT_GAP = 3;
+
+export const createFactHistory = (minGap = DEFAULT_FACT_GAP): FactHistory => ({
+  seen: [],
+  recent: [],
+  minGap: Math.max(0, minGap),
+});
+
+const COMMUTATIVE_KINDS: QuestionKind[] = ["int-add", "int-mul"];
+
+export const getFactKey = (question: Question) => {
+  const commutative =
+    (!question.kind && (question.skill === "add" || question.skill === "mul")) ||
+    (question.kind !== undefined && COMMUTATIVE_KINDS.includes(question.kind));
+  const tree = commutative ? parseExpression(question.text) : null;
+  if (
+    tree?.type === "op" &&
+    tree.left.type === "number" &&
+    tree.right.type === "number"
+  ) {
+    const low = Math.min(tree.left.value, tree.right.value);
+    const high = Math.max(tree.left.value, tree.right.value);
+    return `${question.skill}:${low} ${tree.op} ${high}`;
+  }
+  return `${question.skill}:${question.text}`;
+};
+
+// Basic facts cover addition to 20 (operands up to 10), the matching
+// subtractions, and the 0-12 times tables with their divisions.
+const FACT_LIMITS: Partial<Record<SkillKey, number>> = {
+  add: 10,
+  sub: 10,
+  mul: 12,
+  div: 12,
+};
+const FACT_SMOOTHING = 0.3;
+export const AUTOMATIC_MS = 3000;
+const AUTOMATIC_ACCURACY = 0.9;
+const MIN_AUTOMATIC_ATTEMPTS = 3;
+const FACT_WEIGHTS: Record<FactMastery, number> = {
+  new: 0.7,
+  learning: 1,
+  automatic: 0.2,
+};
+
+const formatFactKey = (skill: SkillKey, a: number, b: number) => {
+  if (skill === "add") {
+    return `add:${Math.min(a, b)} + ${Math.max(a, b)}`;
+  }
+  if (skill === "mul") {
+    return `mul:${Math.min(a, b)} x ${Math.max(a, b)}`;
+  }
+  if (skill === "sub") {
+    return `sub:${a + b} - ${a}`;
+  }
+  return `div:${a * b} / ${a}`;
+};
+
+// Keys are "skill:fact" with the fact written as it is asked, e.g.
+// "mul:3 x 7" or "sub:13 - 5". Subtraction and division facts are stored by
+// the addition or multiplication fact they undo.
+export const getBasicFactKey = (question: Question) => {
+  const limit = FACT_LIMITS[question.skill];
+  const operands = getCoreOperands(question);
+  if (limit === undefined || !operands) {
+    return null;
+  }
+  const { left, right } = operands;
+  const [a, b] =
+    question.skill === "sub"
+      ? [right, left - right]
+      : question.skill === "div"
+        ? [right, right === 0 ? -1 : left / right]
+        : [left, right];
+  if (
+    a < 0 ||
+    b < 0 ||
+    a > limit ||
+    b > limit ||
+    (question.skill === "div" && a === 0)
+  ) {
+    return null;
+  }
+  return formatFactKey(question.skill, a, b);
+};
+
+export const listBasicFacts = (skill: SkillKey) => {
+  const limit = FACT_LIMITS[skill];
+  if (limit === undefined) {
+    return [];
+  }
+  const keys = new Set<string>();
+  for (let a = skill === "div" ? 1 : 0; a <= limit; a += 1) {
+    for (let b = 0; b <= limit; b += 1) {
+      keys.add(formatFactKey(skill, a, b));
+    }
+  }
+  return [...keys];
+};
+
+export const TIMES_TABLES = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12];
+
+// Share of a table's multiplication and matching division facts (factors
+// 0-12) that are automatic.
+export const getTableMastery = (store: FactStore, table: number) => {
+  const keys = TIMES_TABLES.concat(0).flatMap((factor) => [
+    formatFactKey("mul", table, factor),
+    formatFactKey("div", table, factor),
+  ]);
+  const automatic = keys.filter(
+    (key) => getFactMastery(store[key]) === "automatic"
+  ).length;
+  return automatic / keys.length;
+};
+
+export const getWeakestTable = (store: FactStore) =>
+  TIMES_TABLES.reduce((weakest, table) =>
+    getTableMastery(store, table) < getTableMastery(store, weakest)
+      ? table
+      : weakest
+  );
+
+export const getFactMastery = (record?: FactRecord): FactMastery => {
+  if (!record) {
+    return "new";
+  }
+  return record.attempts >= MIN_AUTOMATIC_ATTEMPTS &&
+    record.accuracy >= AUTOMATIC_ACCURACY &&
+    record.avgMs <= AUTOMATIC_MS
+    ? "automatic"
+    : "learning";
+};
+
+export const updateFactStore = (
+  store: FactStore,
+  question: Question,
+  correct: boolean,
+  ms: number
+): FactStore => {
+  const key = getBasicFactKey(question);
+  if (!key) {
+    return store;
+  }
+  const current = store[key];
+  const score = correct ? 1 : 0;
+  return {
+    ...store,
+    [key]: current
+      ? {
+          attempts: current.attempts + 1,
+          accuracy:
+            current.accuracy + FACT_SMOOTHING * (score - current.accuracy),
+          avgMs: Math.round(current.avgMs + FACT_SMOOTHING * (ms - current.avgMs)),
+          lastSeen: Date.now(),
+        }
+      : { attempts: 1, accuracy: score, avgMs: ms, lastSeen: Date.now() },
+  };
+};
+
+export const normalizeFactStore = (value: unknown): FactStore => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return {};
+  }
+  const store: FactStore = {};
+  Object.entries(value as Record<string, Partial<FactRecord>>).forEach(
+    ([key, entry]) => {
+      const attempts = Number(entry?.attempts);
+      const accuracy = Number(entry?.accuracy);
+      const avgMs = Number(entry?.avgMs);
+      if (
+        !Number.isInteger(attempts) ||
+        attempts < 1 ||
+        !Number.isFinite(accuracy) ||
+        !Number.isFinite(avgMs)
+      ) {
+        return;
+      }
+      store[key] = {
+        attempts,
+        accuracy: clamp(accuracy, 0, 1),
+        avgMs: Math.max(0, avgMs),
+        lastSeen: Number(entry?.lastSeen) || 0,
+      };
+    }
+  );
+  return store;
+};
+
+export const generateSessionQuestion = (
+  skill: SkillKey,
+  level: number,
+  history: FactHistory,
+  options?: QuestionOptions & { facts?: FactStore }
+): { question: Question; history: FactHistory } => {
+  const rng = options?.rng ?? Math.random;
+  const getWeight = (candidate: Question) => {
+    const key = options?.facts ? getBasicFactKey(candidate) : null;
+    return key ? FACT_WEIGHTS[getFactMastery(options?.facts?.[key])] : 1;
+  };
+  // With a fact store, well-known facts are mostly passed over in favour of
+  // ones still being learned; the first allowed candidate is the fallback.
+  const draw = (isAllowed: (key: string) => boolean) => {
+    let fallback: Question | null = null;
+    for (let attempt = 0; attempt < MAX_UNIQUE_ATTEMPTS; attempt += 1) {
+      const candidate = generateQuestion(skill, level, options);
+      if (!isAllowed(getFactKey(candidate))) {
+        continue;
+      }
+      const weight = getWeight(candidate);
+      if (weight >= 1 || rng() < weight) {
+        return candidate;
+      }
+      fallback = fallback ?? candidate;
+    }
+    return fallback;
+  };
+  let seen = history.seen;
+  // When no unseen fact turns up the pool is treated as used up: a new cycle
+  // starts and only the minimum gap is kept.
+  let question = draw((key) => !seen.includes(key));
+  if (!question) {
+    seen = [];
+    question =
+      draw((key) => !history.recent.includes(key)) ??
+      generateQuestion(skill, level, options);
+  }
+  const key = getFactKey(question);
+  return {
+    question,
+    history: {
+      ...history,
+      seen: [...seen, key],
+      recent:
+        history.minGap > 0
+          ? [...history.recent, key].slice(-history.minGap)
+          : [],
+    },
+  };
+};
@@ -0,0 +1,156 @@
+import {
+  isAnswerFormat,
+  isQuestionKind,
+  isSkillKey,
+  scoreDifficulty,
+  wholeNumber,
+  type AnswerFormat,
+  type Question,
+  type QuestionKind,
+  type Rational,
+  type SkillKey,
+} from "./math";
+
+export interface MistakeItem {
+  id: string;
+  text: string;
+  answer: Rational;
+  format: AnswerFormat;
+  remainder?: number;
+  kind?: QuestionKind;
+  skill: SkillKey;
+  level: number;
+  misses: number;
+  lastMissedAt: number;
+}
+
+export const MAX_MISTAKES = 50;
+
+const makeMistakeId = (question: Question) =>
+  `${question.skill}:${question.text}`;
+
+const normalizeMistakeAnswer = (value: unknown): Rational | null => {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? wholeNumber(value) : null;
+  }
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+  const { num, den } = value as Partial<Rational>;
+  if (!Number.isInteger(num) || !Number.isInteger(den) || den === 0) {
+    return null;
+  }
+  return { num: num as number, den: den as number };
+};
+
+export const normalizeMistakes = (value: unknown): MistakeItem[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  const cleaned: MistakeItem[] = [];
+  value.forEach((entry) => {
+    if (!entry || typeof entry !== "object") {
+      return;
+    }
+    const item = entry as Partial<Omit<MistakeItem, "answer">> & {
+      answer?: unknown;
+    };
+    if (typeof item.text !== "string" || !isSkillKey(item.skill)) {
+      return;
+    }
+    const answer = normalizeMistakeAnswer(item.answer);
+    if (!answer) {
+      return;
+    }
+    const level = Number(item.level);
+    const misses = Number(item.misses);
+    const lastMissedAt = Number(item.lastMissedAt);
+    cleaned.push({
+      id:
+        typeof item.id === "string"
+          ? item.id
+          : `${item.skill}:${item.text}`,
+      text: item.text,
+      answer,
+      format: isAnswerFormat(item.format) ? item.format : "integer",
+      remainder:
+        typeof item.remainder === "number" ? item.remainder : undefined,
+      kind: isQuestionKind(item.kind) ? item.kind : undefined,
+      skill: item.skill,
+      level: Number.isFinite(level) ? level : 1,
+      misses: Number.isFinite(misses) && misses > 0 ? misses : 1,
+      lastMissedAt: Number.isFinite(lastMissedAt) ? lastMissedAt : Date.now(),
+    });
+  });
+  return cleaned.slice(0, MAX_MISTAKES);
+};
+
+export const addMistakeEntry = (
+  items: MistakeItem[],
+  question: Question
+): MistakeItem[] => {
+  const id = makeMistakeId(question);
+  const now = Date.now();
+  const existingIndex = items.findIndex((item) => item.id === id);
+  if (existingIndex === -1) {
+    return [
+      {
+        id,
+        text: question.text,
+        answer: question.answer,
+        format: question.format,
+        remainder: question.remainder,
+        kind: question.kind,
+        skill: question.skill,
+        level: question.level,
+        misses: 1,
+        lastMissedAt: now,
+      },
+      ...items,
+    ].slice(0, MAX_MISTAKES);
+  }
+  const next = [...items];
+  const existing = next[existingIndex];
+  next.splice(existingIndex, 1);
+  return [
+    {
+      ...existing,
+      answer: question.answer,
+      format: question.format,
+      remainder: question.remainder,
+      kind: question.kind,
+      level: question.level,
+      misses: existing.misses + 1,
+      lastMissedAt: now,
+    },
+    ...next,
+  ].slice(0, MAX_MISTAKES);
+};
+
+export const removeMistakeEntry = (items: MistakeItem[], question: Question) =>
+  items.filter((item) => item.id !== makeMistakeId(question));
+
+export const buildMistakeQuestion = (item: MistakeItem): Question => {
+  const question: Question = {
+    id: `${item.id}-${Date.now()}-${Math.random().toString(16).slice(2)}`,
+    text: item.text,
+    answer: item.answer,
+    format: item.format,
+    remainder: item.remainder,
+    kind: item.kind,
+    skill: item.skill,
+    level: item.level,
+  };
+  return { ...question, difficulty: scoreDifficulty(question) };
+};
+
+// Most-missed first, then most recently missed.
+export const buildMistakeQueue = (items: MistakeItem[], count: number) =>
+  [...items]
+    .sort((a, b) => {
+      if (b.misses !== a.misses) {
+        return b.misses - a.misses;
+      }
+      return b.lastMissedAt - a.lastMissedAt;
+    })
+    .slice(0, count);
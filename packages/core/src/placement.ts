@@ -0,0 +1,138 @@
+import {
+  DEFAULT_AGE_GROUP,
+  DEFAULT_CURVE,
+  generateQuestion,
+  getTargetMs,
+  MIX_SKILLS,
+  type AgeGroup,
+  type LevelCurve,
+  type Question,
+  type Rng,
+  type SkillKey,
+  type Stats,
+} from "./math";
+
+export interface PlacementRange {
+  low: number;
+  high: number;
+  asked: number;
+}
+
+export interface PlacementState {
+  skills: SkillKey[];
+  ranges: Partial<Record<SkillKey, PlacementRange>>;
+  perSkill: number;
+  turn: number;
+}
+
+export const PLACEMENT_QUESTIONS = 5;
+// A correct answer slower than this multiple of the target still counts as a
+// miss, so the test does not place learners where they would crawl.
+const PLACEMENT_SLACK = 2;
+
+export const createPlacement = (
+  curve: LevelCurve = DEFAULT_CURVE,
+  skills: SkillKey[] = MIX_SKILLS,
+  perSkill = PLACEMENT_QUESTIONS
+): PlacementState => {
+  const ranges: Partial<Record<SkillKey, PlacementRange>> = {};
+  skills.forEach((skill) => {
+    ranges[skill] = { low: 1, high: curve.levels[skill].length, asked: 0 };
+  });
+  return { skills, ranges, perSkill, turn: 0 };
+};
+
+const isRangeOpen = (range: PlacementRange | undefined, perSkill: number) =>
+  Boolean(range && range.low < range.high && range.asked < perSkill);
+
+export const getPlacementLength = (state: PlacementState) =>
+  state.skills.length * state.perSkill;
+
+// Skills take turns so the test does not feel like one long block, and each
+// question probes the middle of the levels still in doubt for its skill.
+export const getPlacementStep = (state: PlacementState) => {
+  const open = state.skills.filter((skill) =>
+    isRangeOpen(state.ranges[skill], state.perSkill)
+  );
+  if (open.length === 0) {
+    return null;
+  }
+  const skill = open[state.turn % open.length];
+  const range = state.ranges[skill] as PlacementRange;
+  return { skill, level: Math.ceil((range.low + range.high) / 2) };
+};
+
+export const getPlacementQuestion = (
+  state: PlacementState,
+  curve: LevelCurve,
+  rng: Rng
+): Question | null => {
+  const step = getPlacementStep(state);
+  return step ? generateQuestion(step.skill, step.level, { rng, curve }) : null;
+};
+
+export const isPlacementPass = (
+  correct: boolean,
+  ms: number,
+  level: number,
+  ageGroup: AgeGroup = DEFAULT_AGE_GROUP
+) => {
+  if (!correct) {
+    return false;
+  }
+  const target = getTargetMs(
+    { level, streak: 0, mistakeStreak: 0, history: [] },
+    ageGroup
+  );
+  return ms <= target * PLACEMENT_SLACK;
+};
+
+export const recordPlacementAnswer = (
+  state: PlacementState,
+  skill: SkillKey,
+  level: number,
+  passed: boolean
+): PlacementState => {
+  const range = state.ranges[skill];
+  if (!range) {
+    return state;
+  }
+  const next: PlacementRange = passed
+    ? { ...range, low: Math.max(range.low, level) }
+    : {
+        ...range,
+        high: Math.max(range.low, Math.min(range.high, level - 1)),
+      };
+  next.asked += 1;
+  return {
+    ...state,
+    ranges: { ...state.ranges, [skill]: next },
+    turn: state.turn + 1,
+  };
+};
+
+// The highest level passed so far; levels still in doubt are left for the
+// normal adaptivity to sort out.
+export const getPlacementLevels = (state: PlacementState) => {
+  const levels: Partial<Record<SkillKey, number>> = {};
+  state.skills.forEach((skill) => {
+    levels[skill] = state.ranges[skill]?.low ?? 1;
+  });
+  return levels;
+};
+
+export const applyPlacement = (
+  stats: Stats,
+  levels: Partial<Record<SkillKey, number>>
+): Stats => {
+  const next = { ...stats };
+  (Object.keys(levels) as SkillKey[]).forEach((skill) => {
+    next[skill] = {
+      level: levels[skill] ?? stats[skill].level,
+      streak: 0,
+      mistakeStreak: 0,
+      history: stats[skill].history,
+    };
+  });
+  return next;
+};
@@ -0,0 +1,247 @@
+import {
+  DEFAULT_CURVE,
+  isSkillKey,
+  MIX_SKILLS,
+  type LevelCurve,
+  type Rng,
+  type SkillKey,
+  type Stats,
+} from "./math";
+import { createQuestion, type QuestionContext } from "./session";
+import type { Settings } from "./settings";
+
+export interface PresetSkill {
+  skill: SkillKey;
+  weight: number;
+  // Leave both unset to follow the learner's own level; equal values fix it.
+  minLevel?: number;
+  maxLevel?: number;
+}
+
+export interface DrillPreset {
+  id: string;
+  name: string;
+  skills: PresetSkill[];
+  questionCount: number;
+  timeLimitSeconds: number;
+  negativeLevel: number;
+}
+
+export type PresetDraft = Omit<DrillPreset, "id">;
+
+export const MAX_PRESET_WEIGHT = 5;
+export const MAX_PRESET_NAME = 40;
+export const PRESET_QUESTION_RANGE = { min: 5, max: 50 };
+export const PRESET_TIME_RANGE = { min: 5, max: 60 };
+
+export const createPresetId = (rng: Rng = Math.random, now = Date.now()) =>
+  `${now.toString(36)}-${Math.floor(rng() * 0x10000).toString(36)}`;
+
+export const createPresetDraft = (settings: Settings): PresetDraft => ({
+  name: "",
+  skills: MIX_SKILLS.map((skill) => ({ skill, weight: 1 })),
+  questionCount: settings.questionCount,
+  timeLimitSeconds: settings.timeLimitSeconds,
+  negativeLevel: settings.negativeLevel,
+});
+
+export const applyPresetSettings = (
+  settings: Settings,
+  preset: PresetDraft
+): Settings => ({
+  ...settings,
+  questionCount: preset.questionCount,
+  timeLimitSeconds: preset.timeLimitSeconds,
+  negativeLevel: preset.negativeLevel,
+});
+
+export const pickPresetSkill = (preset: PresetDraft, rng: Rng) => {
+  const total = preset.skills.reduce((sum, entry) => sum + entry.weight, 0);
+  let roll = rng() * total;
+  for (const entry of preset.skills) {
+    roll -= entry.weight;
+    if (roll < 0) {
+      return entry;
+    }
+  }
+  return preset.skills[preset.skills.length - 1];
+};
+
+const getPresetLevel = (entry: PresetSkill, rng: Rng) => {
+  if (entry.minLevel === undefined || entry.maxLevel === undefined) {
+    return undefined;
+  }
+  const span = entry.maxLevel - entry.minLevel + 1;
+  return entry.minLevel + Math.floor(rng() * span);
+};
+
+export const createPresetQuestion = (
+  preset: PresetDraft,
+  snapshot: Stats,
+  settings: Settings,
+  context: QuestionContext
+) => {
+  const entry = pickPresetSkill(preset, context.rng);
+  return createQuestion(
+    entry.skill,
+    snapshot,
+    applyPresetSettings(settings, preset),
+    {
+      ...context,
+      tableDrill: null,
+      level: getPresetLevel(entry, context.rng),
+    }
+  );
+};
+
+export const exportPreset = (preset: PresetDraft) =>
+  JSON.stringify({
+    name: preset.name,
+    skills: preset.skills,
+    questionCount: preset.questionCount,
+    timeLimitSeconds: preset.timeLimitSeconds,
+    negativeLevel: preset.negativeLevel,
+  });
+
+const isWholeInRange = (value: unknown, min: number, max: number) =>
+  typeof value === "number" &&
+  Number.isInteger(value) &&
+  value >= min &&
+  value <= max;
+
+const parsePresetSkill = (
+  value: unknown,
+  curve: LevelCurve | null,
+  seen: Set<SkillKey>,
+  errors: string[]
+): PresetSkill | null => {
+  const entry = (value ?? {}) as {
+    skill?: unknown;
+    weight?: unknown;
+    minLevel?: unknown;
+    maxLevel?: unknown;
+  };
+  if (!isSkillKey(entry.skill)) {
+    errors.push(`Unknown skill "${String(entry.skill)}".`);
+    return null;
+  }
+  const skill = entry.skill;
+  if (seen.has(skill)) {
+    errors.push(`${skill}: listed more than once.`);
+    return null;
+  }
+  seen.add(skill);
+  if (!isWholeInRange(entry.weight, 1, MAX_PRESET_WEIGHT)) {
+    errors.push(
+      `${skill}: weight must be between 1 and ${MAX_PRESET_WEIGHT}.`
+    );
+    return null;
+  }
+  const weight = entry.weight as number;
+  if (entry.minLevel === undefined && entry.maxLevel === undefined) {
+    return { skill, weight };
+  }
+  const top = curve ? curve.levels[skill].length : Infinity;
+  const minLevel = entry.minLevel ?? entry.maxLevel;
+  const maxLevel = entry.maxLevel ?? entry.minLevel;
+  if (
+    !isWholeInRange(minLevel, 1, top) ||
+    !isWholeInRange(maxLevel, 1, top) ||
+    (minLevel as number) > (maxLevel as number)
+  ) {
+    errors.push(`${skill}: levels must run from 1 to ${top}, low to high.`);
+    return null;
+  }
+  return {
+    skill,
+    weight,
+    minLevel: minLevel as number,
+    maxLevel: maxLevel as number,
+  };
+};
+
+// Pass a null curve to skip the level bounds; questions clamp to the active
+// curve anyway.
+export const parsePreset = (
+  value: unknown,
+  curve: LevelCurve | null = DEFAULT_CURVE
+): { preset: PresetDraft | null; errors: string[] } => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return { preset: null, errors: ["The preset must be a JSON object."] };
+  }
+  const errors: string[] = [];
+  const document = value as Partial<Record<keyof PresetDraft, unknown>>;
+  const name = typeof document.name === "string" ? document.name.trim() : "";
+  if (!name || name.length > MAX_PRESET_NAME) {
+    errors.push(`name must be 1 to ${MAX_PRESET_NAME} characters.`);
+  }
+  if (!Array.isArray(document.skills) || document.skills.length === 0) {
+    errors.push("skills must be a non-empty list.");
+  }
+  const seen = new Set<SkillKey>();
+  const skills = Array.isArray(document.skills)
+    ? document.skills.map((entry) =>
+        parsePresetSkill(entry, curve, seen, errors)
+      )
+    : [];
+  const { questionCount, timeLimitSeconds, negativeLevel } = document;
+  if (
+    !isWholeInRange(
+      questionCount,
+      PRESET_QUESTION_RANGE.min,
+      PRESET_QUESTION_RANGE.max
+    )
+  ) {
+    errors.push(
+      `questionCount must be between ${PRESET_QUESTION_RANGE.min} and ${PRESET_QUESTION_RANGE.max}.`
+    );
+  }
+  if (
+    !isWholeInRange(
+      timeLimitSeconds,
+      PRESET_TIME_RANGE.min,
+      PRESET_TIME_RANGE.max
+    )
+  ) {
+    errors.push(
+      `timeLimitSeconds must be between ${PRESET_TIME_RANGE.min} and ${PRESET_TIME_RANGE.max}.`
+    );
+  }
+  const maxLevel = curve ? curve.maxLevel : Infinity;
+  if (!isWholeInRange(negativeLevel, 0, maxLevel)) {
+    errors.push(`negativeLevel must be between 0 and ${maxLevel}.`);
+  }
+  if (errors.length > 0) {
+    return { preset: null, errors };
+  }
+  return {
+    preset: {
+      name,
+      skills: skills as PresetSkill[],
+      questionCount: questionCount as number,
+      timeLimitSeconds: timeLimitSeconds as number,
+      negativeLevel: negativeLevel as number,
+    },
+    errors,
+  };
+};
+
+// Saved presets are not checked against the curve, so loading a shorter one
+// does not throw them away.
+export const normalizePresets = (value: unknown): DrillPreset[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  const presets: DrillPreset[] = [];
+  value.forEach((entry) => {
+    const id = (entry as { id?: unknown } | null)?.id;
+    if (typeof id !== "string" || presets.some((item) => item.id === id)) {
+      return;
+    }
+    const { preset } = parsePreset(entry, null);
+    if (preset) {
+      presets.push({ id, ...preset });
+    }
+  });
+  return presets;
+};
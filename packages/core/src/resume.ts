@@ -0,0 +1,225 @@
+import {
+  createRng,
+  isAnswerFormat,
+  isSkillKey,
+  type FactHistory,
+  type Mode,
+  type Question,
+  type Rng,
+} from "./math";
+import { normalizeMistakes, type MistakeItem } from "./mistakes";
+import type { PlacementState } from "./placement";
+import { normalizePresets, type DrillPreset } from "./presets";
+import type { Feedback } from "./session";
+import {
+  DEFAULT_SETTINGS,
+  normalizeTableDrill,
+  type TableDrill,
+} from "./settings";
+import type { SurvivalRun } from "./survival";
+
+export type ResumableKind =
+  | "standard"
+  | "mistakes"
+  | "tables"
+  | "placement"
+  | "survival"
+  | "preset";
+
+export const RESUMABLE_KINDS: ResumableKind[] = [
+  "standard",
+  "mistakes",
+  "tables",
+  "placement",
+  "survival",
+  "preset",
+];
+
+export interface TrackedRng {
+  seed: number;
+  draws: number;
+  next: Rng;
+}
+
+// Sprints are left out: pausing one would stop the clock it is scored on.
+export interface SavedSession {
+  kind: ResumableKind;
+  mode: Mode;
+  sessionSeed: number | null;
+  rngSeed: number;
+  draws: number;
+  history: FactHistory;
+  tableDrill: TableDrill | null;
+  preset: DrillPreset | null;
+  mistakeQueue: MistakeItem[];
+  placement: PlacementState | null;
+  survival: SurvivalRun | null;
+  session: { correct: number; wrong: number };
+  questionIndex: number;
+  question: Question;
+  feedback: Feedback | null;
+  // Seconds left on a whole-session clock, when one is running.
+  budgetLeft: number | null;
+}
+
+// Counts draws so a resumed session carries on with the same seeded
+// sequence instead of starting it over.
+export const createTrackedRng = (seed: number, draws = 0): TrackedRng => {
+  const rng = createRng(seed);
+  for (let index = 0; index < draws; index += 1) {
+    rng();
+  }
+  const tracked: TrackedRng = {
+    seed,
+    draws,
+    next: () => {
+      tracked.draws += 1;
+      return rng();
+    },
+  };
+  return tracked;
+};
+
+const isCount = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+const normalizeQuestion = (value: unknown): Question | null => {
+  const question = value as Partial<Question> | null;
+  if (
+    !question ||
+    typeof question.id !== "string" ||
+    typeof question.text !== "string" ||
+    !isSkillKey(question.skill) ||
+    !isCount(question.level) ||
+    !isAnswerFormat(question.format) ||
+    !question.answer ||
+    !Number.isInteger(question.answer.num) ||
+    !Number.isInteger(question.answer.den) ||
+    question.answer.den === 0
+  ) {
+    return null;
+  }
+  return question as Question;
+};
+
+const normalizeFeedback = (value: unknown): Feedback | null => {
+  const feedback = value as Partial<Feedback> | null;
+  if (
+    !feedback ||
+    typeof feedback.correct !== "boolean" ||
+    typeof feedback.expected !== "string" ||
+    typeof feedback.ms !== "number" ||
+    !isSkillKey(feedback.skill) ||
+    !isCount(feedback.level)
+  ) {
+    return null;
+  }
+  return feedback as Feedback;
+};
+
+const normalizeHistory = (value: unknown): FactHistory | null => {
+  const history = value as Partial<FactHistory> | null;
+  if (
+    !history ||
+    !isStringList(history.seen) ||
+    !isStringList(history.recent) ||
+    !isCount(history.minGap)
+  ) {
+    return null;
+  }
+  return history as FactHistory;
+};
+
+const normalizePlacement = (value: unknown): PlacementState | null => {
+  const placement = value as Partial<PlacementState> | null;
+  if (
+    !placement ||
+    !Array.isArray(placement.skills) ||
+    !placement.skills.every(isSkillKey) ||
+    !placement.ranges ||
+    typeof placement.ranges !== "object" ||
+    !isCount(placement.perSkill) ||
+    !isCount(placement.turn)
+  ) {
+    return null;
+  }
+  return placement as PlacementState;
+};
+
+const normalizeSurvival = (value: unknown): SurvivalRun | null => {
+  const run = value as Partial<SurvivalRun> | null;
+  if (
+    !run ||
+    !isCount(run.lives) ||
+    !isCount(run.level) ||
+    !isCount(run.climb) ||
+    !isCount(run.correct) ||
+    !isCount(run.peakLevel)
+  ) {
+    return null;
+  }
+  return run as SurvivalRun;
+};
+
+export const normalizeSavedSession = (value: unknown): SavedSession | null => {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+  const saved = value as Partial<Record<keyof SavedSession, unknown>>;
+  const kind = saved.kind as ResumableKind;
+  const mode = saved.mode;
+  const question = normalizeQuestion(saved.question);
+  const history = normalizeHistory(saved.history);
+  const session = (saved.session ?? {}) as Partial<SavedSession["session"]>;
+  if (
+    !RESUMABLE_KINDS.includes(kind) ||
+    (mode !== "mix" && !isSkillKey(mode)) ||
+    !question ||
+    !history ||
+    !isCount(saved.rngSeed) ||
+    !isCount(saved.draws) ||
+    !isCount(saved.questionIndex) ||
+    !isCount(session.correct) ||
+    !isCount(session.wrong)
+  ) {
+    return null;
+  }
+  const placement = normalizePlacement(saved.placement);
+  const survival = normalizeSurvival(saved.survival);
+  const [preset] = normalizePresets(saved.preset ? [saved.preset] : []);
+  const mistakeQueue = normalizeMistakes(saved.mistakeQueue);
+  const tableDrill = saved.tableDrill
+    ? normalizeTableDrill(saved.tableDrill, DEFAULT_SETTINGS.tableDrill)
+    : null;
+  // Without the state its kind depends on, a session cannot carry on.
+  if (
+    (kind === "tables" && !tableDrill) ||
+    (kind === "placement" && !placement) ||
+    (kind === "survival" && !survival) ||
+    (kind === "preset" && !preset) ||
+    (kind === "mistakes" && mistakeQueue.length === 0)
+  ) {
+    return null;
+  }
+  return {
+    kind,
+    mode: mode as Mode,
+    sessionSeed: isCount(saved.sessionSeed) ? saved.sessionSeed : null,
+    rngSeed: saved.rngSeed as number,
+    draws: saved.draws as number,
+    history,
+    tableDrill,
+    preset: preset ?? null,
+    mistakeQueue,
+    placement,
+    survival,
+    session: { correct: session.correct, wrong: session.wrong },
+    questionIndex: saved.questionIndex as number,
+    question,
+    feedback: normalizeFeedback(saved.feedback),
+    budgetLeft: isCount(saved.budgetLeft) ? saved.budgetLeft : null,
+  };
+};
@@ -0,0 +1,94 @@
+import {
+  generateSessionQuestion,
+  pickSkill,
+  type FactHistory,
+  type FactStore,
+  type LevelCurve,
+  type Mode,
+  type Rng,
+  type SkillKey,
+  type Stats,
+} from "./math";
+import type { Settings, TableDrill } from "./settings";
+
+export interface Feedback {
+  correct: boolean;
+  expected: string;
+  ms: number;
+  skill: SkillKey;
+  level: number;
+  timedOut?: boolean;
+}
+
+export interface QuestionContext {
+  rng: Rng;
+  history: FactHistory;
+  curve: LevelCurve;
+  facts: FactStore;
+  tableDrill: TableDrill | null;
+  // Fixed level for runs that ignore the adaptive level, such as survival.
+  level?: number;
+}
+
+export const formatMs = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+export const formatSeconds = (value: number) =>
+  `${String(value).padStart(2, "0")}s`;
+
+export const getFeedbackText = (feedback: Feedback | null) =>
+  feedback
+    ? feedback.correct
+      ? `Correct. ${formatMs(feedback.ms)}.`
+      : feedback.timedOut
+        ? `Time's up. Answer: ${feedback.expected}.`
+        : `Not yet. Answer: ${feedback.expected}.`
+    : "";
+
+export const getTableDrillLabel = (drill: TableDrill) =>
+  drill.tables.length === 1
+    ? `${drill.tables[0]} times table`
+    : `Tables ${drill.tables.join(", ")}`;
+
+export const createQuestion = (
+  selectedMode: Mode,
+  snapshot: Stats,
+  settings: Settings,
+  context: QuestionContext
+) => {
+  const { rng, tableDrill } = context;
+  const skill = tableDrill
+    ? tableDrill.ops === "both"
+      ? rng() < 0.5
+        ? "mul"
+        : "div"
+      : tableDrill.ops
+    : selectedMode === "mix"
+      ? pickSkill(snapshot, rng)
+      : selectedMode;
+  const level =
+    context.level === undefined
+      ? snapshot[skill].level
+      : Math.min(context.level, context.curve.levels[skill].length);
+  const allowNegative =
+    settings.negativeLevel > 0
+      ? skill === "sub" && level >= settings.negativeLevel
+      : undefined;
+  return generateSessionQuestion(skill, level, context.history, {
+    allowNegative,
+    remainders: tableDrill ? false : settings.remainders,
+    unknown: settings.unknown,
+    rng,
+    curve: context.curve,
+    facts: context.facts,
+    band: settings.band,
+    regroup: settings.regroup,
+    tables: tableDrill ?? undefined,
+    // A table drill or a fixed run level ignores the skill's own level, so
+    // the rating has nothing to aim at.
+    aim:
+      settings.engine === "rating" &&
+      !tableDrill &&
+      context.level === undefined
+        ? snapshot[skill]
+        : undefined,
+  });
+};
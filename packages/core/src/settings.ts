@@ -0,0 +1,182 @@
+import {
+  DEFAULT_AGE_GROUP,
+  DEFAULT_CURVE,
+  DEFAULT_ENGINE,
+  DEFAULT_FACT_GAP,
+  DEFAULT_TIMING,
+  isAdaptivityEngine,
+  isAgeGroup,
+  isDifficultyBand,
+  isRegroupMode,
+  isTimingMode,
+  parseSeed,
+  TIMES_TABLES,
+  type AdaptivityEngine,
+  type AgeGroup,
+  type DifficultyBand,
+  type RegroupMode,
+  type TimingMode,
+  type UnknownMode,
+} from "./math";
+import { DEFAULT_SPRINT_SECONDS, isSprintDuration } from "./sprint";
+
+export const STORAGE_KEY = "math-training-state";
+export const THEME_KEY = "math-training-theme";
+export const SETTINGS_KEY = "math-training-settings";
+export const MISTAKES_KEY = "math-training-mistakes";
+export const CURVE_KEY = "math-training-curve";
+export const FACTS_KEY = "math-training-facts";
+export const SPRINTS_KEY = "math-training-sprints";
+export const SURVIVAL_KEY = "math-training-survival";
+export const PRESETS_KEY = "math-training-presets";
+export const SESSION_KEY = "math-training-session";
+
+export type TableOps = "mul" | "div" | "both";
+
+export interface TableDrill {
+  tables: number[];
+  minFactor: number;
+  maxFactor: number;
+  ops: TableOps;
+}
+
+export interface Settings {
+  questionCount: number;
+  timeLimitSeconds: number;
+  negativeLevel: number;
+  seedCode: string;
+  acceptUnsimplified: boolean;
+  remainders: boolean;
+  unknown: UnknownMode;
+  repeatGap: number;
+  ageGroup: AgeGroup;
+  engine: AdaptivityEngine;
+  timing: TimingMode;
+  sessionSeconds: number;
+  band: DifficultyBand;
+  regroup: RegroupMode;
+  tableDrill: TableDrill;
+  sprintSeconds: number;
+  survivalStats: boolean;
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  questionCount: 10,
+  timeLimitSeconds: 10,
+  negativeLevel: 0,
+  seedCode: "",
+  acceptUnsimplified: false,
+  remainders: false,
+  unknown: "result",
+  repeatGap: DEFAULT_FACT_GAP,
+  ageGroup: DEFAULT_AGE_GROUP,
+  engine: DEFAULT_ENGINE,
+  timing: DEFAULT_TIMING,
+  sessionSeconds: 120,
+  band: "any",
+  regroup: "any",
+  tableDrill: { tables: [2, 3, 4, 5], minFactor: 0, maxFactor: 12, ops: "mul" },
+  sprintSeconds: DEFAULT_SPRINT_SECONDS,
+  survivalStats: false,
+};
+
+export const UNKNOWN_MODES: UnknownMode[] = ["result", "mixed", "operand"];
+export const TABLE_OPS: TableOps[] = ["mul", "div", "both"];
+export const MAX_TABLE_FACTOR = 20;
+export const MAX_REPEAT_GAP = 10;
+export const SESSION_SECONDS_RANGE = { min: 30, max: 600, step: 30 };
+
+export const normalizeTableDrill = (
+  value: unknown,
+  fallback: TableDrill
+): TableDrill => {
+  if (!value || typeof value !== "object") {
+    return fallback;
+  }
+  const drill = value as Partial<TableDrill>;
+  const tables = Array.isArray(drill.tables)
+    ? TIMES_TABLES.filter((table) => drill.tables?.includes(table))
+    : fallback.tables;
+  const minFactor = Number(drill.minFactor);
+  const maxFactor = Number(drill.maxFactor);
+  const low = Number.isInteger(minFactor)
+    ? Math.min(Math.max(minFactor, 0), MAX_TABLE_FACTOR)
+    : fallback.minFactor;
+  const high = Number.isInteger(maxFactor)
+    ? Math.min(Math.max(maxFactor, low), MAX_TABLE_FACTOR)
+    : Math.max(fallback.maxFactor, low);
+  return {
+    tables: tables.length > 0 ? tables : fallback.tables,
+    minFactor: low,
+    maxFactor: high,
+    ops: drill.ops && TABLE_OPS.includes(drill.ops) ? drill.ops : fallback.ops,
+  };
+};
+
+// Saved settings may come from an older version or the other app, so each
+// field is checked on its own and falls back when missing or invalid.
+export const normalizeSettings = (
+  value: unknown,
+  maxLevel = DEFAULT_CURVE.maxLevel,
+  fallback: Settings = DEFAULT_SETTINGS
+): Settings => {
+  if (!value || typeof value !== "object") {
+    return fallback;
+  }
+  const parsed = value as Partial<Settings>;
+  const nextNegative =
+    typeof parsed.negativeLevel === "number"
+      ? parsed.negativeLevel
+      : fallback.negativeLevel;
+  return {
+    questionCount:
+      typeof parsed.questionCount === "number"
+        ? parsed.questionCount
+        : fallback.questionCount,
+    timeLimitSeconds:
+      typeof parsed.timeLimitSeconds === "number"
+        ? parsed.timeLimitSeconds
+        : fallback.timeLimitSeconds,
+    negativeLevel: Math.min(Math.max(nextNegative, 0), maxLevel),
+    seedCode:
+      typeof parsed.seedCode === "string" && parseSeed(parsed.seedCode) !== null
+        ? parsed.seedCode
+        : fallback.seedCode,
+    acceptUnsimplified:
+      typeof parsed.acceptUnsimplified === "boolean"
+        ? parsed.acceptUnsimplified
+        : fallback.acceptUnsimplified,
+    remainders:
+      typeof parsed.remainders === "boolean"
+        ? parsed.remainders
+        : fallback.remainders,
+    repeatGap:
+      typeof parsed.repeatGap === "number"
+        ? Math.min(Math.max(parsed.repeatGap, 0), MAX_REPEAT_GAP)
+        : fallback.repeatGap,
+    ageGroup: isAgeGroup(parsed.ageGroup) ? parsed.ageGroup : fallback.ageGroup,
+    engine: isAdaptivityEngine(parsed.engine) ? parsed.engine : fallback.engine,
+    timing: isTimingMode(parsed.timing) ? parsed.timing : fallback.timing,
+    sessionSeconds:
+      typeof parsed.sessionSeconds === "number"
+        ? Math.min(
+            Math.max(parsed.sessionSeconds, SESSION_SECONDS_RANGE.min),
+            SESSION_SECONDS_RANGE.max
+          )
+        : fallback.sessionSeconds,
+    band: isDifficultyBand(parsed.band) ? parsed.band : fallback.band,
+    regroup: isRegroupMode(parsed.regroup) ? parsed.regroup : fallback.regroup,
+    tableDrill: normalizeTableDrill(parsed.tableDrill, fallback.tableDrill),
+    sprintSeconds: isSprintDuration(parsed.sprintSeconds)
+      ? parsed.sprintSeconds
+      : fallback.sprintSeconds,
+    survivalStats:
+      typeof parsed.survivalStats === "boolean"
+        ? parsed.survivalStats
+        : fallback.survivalStats,
+    unknown:
+      parsed.unknown && UNKNOWN_MODES.includes(parsed.unknown)
+        ? parsed.unknown
+        : fallback.unknown,
+  };
+};
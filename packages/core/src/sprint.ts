@@ -0,0 +1,81 @@
+import { isSkillKey, type Mode } from "./math";
+
+export interface SprintBest {
+  score: number;
+  rate: number;
+  achievedAt: number;
+}
+
+export type SprintBests = Record<string, SprintBest>;
+
+export const SPRINT_DURATIONS = [30, 60, 120];
+export const DEFAULT_SPRINT_SECONDS = 60;
+
+export const isSprintDuration = (value: unknown): value is number =>
+  typeof value === "number" && SPRINT_DURATIONS.includes(value);
+
+export const getSprintKey = (mode: Mode, seconds: number) =>
+  `${mode}:${seconds}`;
+
+// Correct answers per minute, so bests across durations can be compared.
+export const getSprintRate = (score: number, seconds: number) =>
+  seconds > 0 ? Math.round((score * 600) / seconds) / 10 : 0;
+
+export const getSprintBest = (
+  bests: SprintBests,
+  mode: Mode,
+  seconds: number
+): SprintBest | null => bests[getSprintKey(mode, seconds)] ?? null;
+
+export const updateSprintBests = (
+  bests: SprintBests,
+  mode: Mode,
+  seconds: number,
+  score: number,
+  now = Date.now()
+) => {
+  const previous = getSprintBest(bests, mode, seconds);
+  if (score <= 0 || (previous && previous.score >= score)) {
+    return { bests, previous, isBest: false };
+  }
+  const entry: SprintBest = {
+    score,
+    rate: getSprintRate(score, seconds),
+    achievedAt: now,
+  };
+  return {
+    bests: { ...bests, [getSprintKey(mode, seconds)]: entry },
+    previous,
+    isBest: true,
+  };
+};
+
+export const normalizeSprintBests = (value: unknown): SprintBests => {
+  if (!value || typeof value !== "object") {
+    return {};
+  }
+  const bests: SprintBests = {};
+  Object.entries(value as Record<string, unknown>).forEach(([key, raw]) => {
+    const [mode, seconds] = key.split(":");
+    const validMode = mode === "mix" || isSkillKey(mode);
+    if (!validMode || !isSprintDuration(Number(seconds))) {
+      return;
+    }
+    const entry = raw as Partial<SprintBest> | null;
+    if (
+      !entry ||
+      typeof entry.score !== "number" ||
+      !Number.isFinite(entry.score) ||
+      entry.score <= 0
+    ) {
+      return;
+    }
+    bests[key] = {
+      score: Math.round(entry.score),
+      rate: getSprintRate(Math.round(entry.score), Number(seconds)),
+      achievedAt:
+        typeof entry.achievedAt === "number" ? entry.achievedAt : Date.now(),
+    };
+  });
+  return bests;
+};
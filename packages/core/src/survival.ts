@@ -0,0 +1,115 @@
+import {
+  isSkillKey,
+  MIX_SKILLS,
+  type LevelCurve,
+  type Mode,
+} from "./math";
+
+export interface SurvivalRun {
+  lives: number;
+  level: number;
+  // Correct answers since the level last rose.
+  climb: number;
+  correct: number;
+  peakLevel: number;
+}
+
+export interface SurvivalBest {
+  level: number;
+  correct: number;
+  achievedAt: number;
+}
+
+export type SurvivalBests = Partial<Record<Mode, SurvivalBest>>;
+
+export const SURVIVAL_LIVES = 3;
+export const SURVIVAL_STEP = 3;
+
+export const createSurvivalRun = (startLevel = 1): SurvivalRun => ({
+  lives: SURVIVAL_LIVES,
+  level: startLevel,
+  climb: 0,
+  correct: 0,
+  peakLevel: startLevel,
+});
+
+// Skills have ladders of different lengths, so a run tops out at the last
+// level its own skill (or the longest mix skill) can actually ask.
+export const getSurvivalMaxLevel = (curve: LevelCurve, mode: Mode) =>
+  mode === "mix"
+    ? Math.max(...MIX_SKILLS.map((skill) => curve.levels[skill].length))
+    : curve.levels[mode].length;
+
+// The level only ever rises; a miss costs a life but keeps the pace.
+export const recordSurvivalAnswer = (
+  run: SurvivalRun,
+  correct: boolean,
+  maxLevel: number
+): SurvivalRun => {
+  if (!correct) {
+    return { ...run, lives: Math.max(run.lives - 1, 0) };
+  }
+  const climb = run.climb + 1;
+  const rises = climb >= SURVIVAL_STEP && run.level < maxLevel;
+  const level = rises ? run.level + 1 : run.level;
+  return {
+    ...run,
+    level,
+    climb: rises ? 0 : climb,
+    correct: run.correct + 1,
+    peakLevel: Math.max(run.peakLevel, level),
+  };
+};
+
+export const isSurvivalOver = (run: SurvivalRun) => run.lives <= 0;
+
+export const updateSurvivalBests = (
+  bests: SurvivalBests,
+  mode: Mode,
+  run: SurvivalRun,
+  now = Date.now()
+) => {
+  const previous = bests[mode] ?? null;
+  const better =
+    run.correct > 0 &&
+    (!previous ||
+      run.peakLevel > previous.level ||
+      (run.peakLevel === previous.level && run.correct > previous.correct));
+  if (!better) {
+    return { bests, previous, isBest: false };
+  }
+  const entry: SurvivalBest = {
+    level: run.peakLevel,
+    correct: run.correct,
+    achievedAt: now,
+  };
+  return { bests: { ...bests, [mode]: entry }, previous, isBest: true };
+};
+
+export const normalizeSurvivalBests = (value: unknown): SurvivalBests => {
+  if (!value || typeof value !== "object") {
+    return {};
+  }
+  const bests: SurvivalBests = {};
+  Object.entries(value as Record<string, unknown>).forEach(([mode, raw]) => {
+    if (mode !== "mix" && !isSkillKey(mode)) {
+      return;
+    }
+    const entry = raw as Partial<SurvivalBest> | null;
+    if (
+      !entry ||
+      typeof entry.level !== "number" ||
+      typeof entry.correct !== "number" ||
+      entry.level < 1
+    ) {
+      return;
+    }
+    bests[mode as Mode] = {
+      level: Math.round(entry.level),
+      correct: Math.max(Math.round(entry.correct), 0),
+      achievedAt:
+        typeof entry.achievedAt === "number" ? entry.achievedAt : Date.now(),
+    };
+  });
+  return bests;
+};
@@ -0,0 +1,595 @@
+import {
+  evaluateExpression,
+  formatExpression,
+  gcd,
+  lcm,
+  parseExpression,
+  type ExpressionNode,
+  type Question,
+} from "./math";
+
+const parseOperands = (text: string) => {
+  const tree = parseExpression(text);
+  if (
+    !tree ||
+    tree.type !== "op" ||
+    tree.left.type !== "number" ||
+    tree.right.type !== "number"
+  ) {
+    return null;
+  }
+  return { left: tree.left.value, right: tree.right.value };
+};
+
+const roundToBase = (value: number, base: number) =>
+  Math.round(value / base) * base;
+
+const formatAdjustment = (delta: number) =>
+  delta > 0 ? `add ${delta}` : `subtract ${Math.abs(delta)}`;
+
+const parseFractionOperands = (text: string) =>
+  Array.from(text.matchAll(/(?:(\d+) )?(\d+)\/(\d+)/g), (match) => ({
+    whole: Number(match[1] ?? 0),
+    num: Number(match[2]),
+    den: Number(match[3]),
+  }));
+
+const getFractionTip = (question: Question) => {
+  const operands = parseFractionOperands(question.text);
+  const [left, right] = operands;
+  if (!left) {
+    return "Find a common denominator first.";
+  }
+  if (question.kind === "simplify") {
+    const common = gcd(left.num, left.den);
+    return `Divide top and bottom by ${common}: ${left.num / common}/${
+      left.den / common
+    }.`;
+  }
+  if (!right) {
+    return "Find a common denominator first.";
+  }
+  if (question.kind === "like-add" || question.kind === "like-sub") {
+    const verb = question.kind === "like-add" ? "add" : "subtract";
+    return `Same bottom: ${verb} the tops and keep ${
+      left.den
+    }. Simplify if you can.`;
+  }
+  if (question.kind === "unlike-add" || question.kind === "unlike-sub") {
+    const common = lcm(left.den, right.den);
+    return `Rewrite over ${common}: ${left.num * (common / left.den)}/${common} and ${
+      right.num * (common / right.den)
+    }/${common}.`;
+  }
+  if (question.kind === "frac-mul") {
+    const cross = gcd(left.num, right.den) > 1 || gcd(right.num, left.den) > 1;
+    return cross
+      ? "Cancel across first, then multiply tops and bottoms."
+      : "Multiply tops and bottoms, then simplify.";
+  }
+  if (question.kind === "frac-div") {
+    return `Keep, change, flip: ${left.num}/${left.den} x ${right.den}/${right.num}.`;
+  }
+  if (question.kind === "mixed-add") {
+    return `Add the wholes (${left.whole} + ${right.whole}), then the fractions. Carry if the fraction passes 1.`;
+  }
+  if (question.kind === "mixed-sub") {
+    const leftTop = left.whole * left.den + left.num;
+    const rightTop = right.whole * right.den + right.num;
+    return `Use improper fractions: ${leftTop}/${left.den} - ${rightTop}/${right.den}.`;
+  }
+  return "Find a common denominator first.";
+};
+
+const countDecimalPlaces = (value: string) => value.split(".")[1]?.length ?? 0;
+
+const getDecimalTip = (question: Question) => {
+  const [left = "", , right = ""] = question.text.split(" ");
+  if (question.kind === "dec-add" || question.kind === "dec-sub") {
+    const places = Math.max(countDecimalPlaces(left), countDecimalPlaces(right));
+    return places > 1
+      ? `Line up the points and pad with zeros to ${places} places.`
+      : "Line up the decimal points, then work column by column.";
+  }
+  const places = countDecimalPlaces(left);
+  const digits = left.replace(".", "");
+  if (question.kind === "dec-mul") {
+    return `Do ${Number(digits)} x ${right}, then move the point ${places} place${
+      places === 1 ? "" : "s"
+    } left.`;
+  }
+  if (question.kind === "dec-div") {
+    return `Do ${Number(digits)} / ${right}, then move the point ${places} place${
+      places === 1 ? "" : "s"
+    } left.`;
+  }
+  return "Line up the decimal points.";
+};
+
+const getPercentOfTip = (percent: number, whole: number) => {
+  if (percent === 50) {
+    return `Halve ${whole}.`;
+  }
+  if (percent === 25) {
+    return `Halve ${whole} twice.`;
+  }
+  if (percent === 75) {
+    return "Find 25% (halve twice), then times 3.";
+  }
+  if (percent === 10) {
+    return `Move the point one place left: ${whole} / 10.`;
+  }
+  if (percent === 20) {
+    return "Find 10%, then double.";
+  }
+  if (percent === 5) {
+    return "Find 10%, then halve.";
+  }
+  if (percent === 1) {
+    return `Move the point two places left: ${whole} / 100.`;
+  }
+  if (percent === 15) {
+    return "Find 10%, then add half of it.";
+  }
+  if (whole < percent && [10, 20, 25, 50].includes(whole)) {
+    return `Swap it: ${percent}% of ${whole} = ${whole}% of ${percent}.`;
+  }
+  if (percent % 10 === 0) {
+    return `Find 10%, then times ${percent / 10}.`;
+  }
+  return `Find 1% (${whole} / 100), then times ${percent}.`;
+};
+
+const getPercentTip = (question: Question) => {
+  const [first = 0, second = 0] = (question.text.match(/\d+/g) ?? []).map(
+    Number
+  );
+  if (question.kind === "pct-of") {
+    return getPercentOfTip(first, second);
+  }
+  if (question.kind === "pct-what") {
+    const common = gcd(first, second) || 1;
+    return `Write it as ${first}/${second} = ${first / common}/${
+      second / common
+    }, then times 100.`;
+  }
+  if (question.kind === "pct-reverse") {
+    if (100 % first === 0) {
+      return `${first}% is 1/${100 / first} of the number: ${second} x ${
+        100 / first
+      }.`;
+    }
+    return `Find 1% first (${second} / ${first}), then times 100.`;
+  }
+  if (question.kind === "pct-change") {
+    return `Change is ${Math.abs(second - first)}. Divide by the start (${first}), then times 100.`;
+  }
+  return "Find 10% or 1% first, then scale.";
+};
+
+const SQUARE_ENDINGS: Record<number, string> = {
+  0: "0",
+  1: "1 or 9",
+  4: "2 or 8",
+  5: "5",
+  6: "4 or 6",
+  9: "3 or 7",
+};
+
+const CUBE_ROOT_ENDINGS = [0, 1, 8, 7, 4, 5, 6, 3, 2, 9];
+
+const getSquareTip = (base: number) => {
+  if (base <= 12) {
+    return `Times table fact: ${base} x ${base}.`;
+  }
+  if (base % 10 === 5) {
+    const tens = Math.floor(base / 10);
+    return `Ends in 5: ${tens} x ${tens + 1} = ${tens * (tens + 1)}, then write 25.`;
+  }
+  const round = roundToBase(base, 10);
+  const delta = base - round;
+  if (Math.abs(delta) <= 3) {
+    const sign = delta > 0 ? "+" : "-";
+    const size = Math.abs(delta);
+    return `(${round} ${sign} ${size})² = ${round * round} ${sign} ${
+      2 * round * size
+    } + ${size * size}.`;
+  }
+  const round50 = roundToBase(base, 50);
+  if (round50 > 0 && Math.abs(base - round50) <= 5) {
+    const size = Math.abs(base - round50);
+    const sign = base > round50 ? "+" : "-";
+    return `(${round50} ${sign} ${size})² = ${round50 * round50} ${sign} ${
+      2 * round50 * size
+    } + ${size * size}.`;
+  }
+  return `Split it: (${round} ${delta > 0 ? "+" : "-"} ${Math.abs(
+    delta
+  )})², square both parts and add twice their product.`;
+};
+
+const getPowerTip = (question: Question) => {
+  const [value = 0] = (question.text.match(/\d+/g) ?? []).map(Number);
+  if (question.kind === "square") {
+    return getSquareTip(value);
+  }
+  if (question.kind === "cube") {
+    return `Square first (${value * value}), then times ${value}.`;
+  }
+  if (question.kind === "pow2") {
+    return "Keep doubling: 2, 4, 8, 16, ... Remember 2¹⁰ = 1024.";
+  }
+  if (question.kind === "pow10") {
+    return "Write 1 followed by as many zeros as the power.";
+  }
+  if (question.kind === "sqrt") {
+    const low = Math.floor(Math.sqrt(value) / 10) * 10;
+    const ending = SQUARE_ENDINGS[value % 10];
+    return low > 0
+      ? `Between ${low}² = ${low * low} and ${low + 10}² = ${
+          (low + 10) * (low + 10)
+        }; the ones digit is ${ending}.`
+      : "Which times-table fact has the same number twice?";
+  }
+  if (question.kind === "cbrt") {
+    const ones = CUBE_ROOT_ENDINGS[value % 10];
+    const thousands = Math.floor(value / 1000);
+    if (thousands === 0) {
+      return `Ends in ${value % 10}, so the root ends in ${ones}.`;
+    }
+    let tens = 0;
+    while ((tens + 1) ** 3 <= thousands) {
+      tens += 1;
+    }
+    return `Ends in ${value % 10}, so the root ends in ${ones}. ${thousands} thousand is past ${tens}³, so the tens digit is ${tens}.`;
+  }
+  return "Break the power into repeated multiplication.";
+};
+
+type ExpressionStep = {
+  node: Extract<ExpressionNode, { type: "op" }>;
+  parent: Extract<ExpressionNode, { type: "op" }> | null;
+};
+
+const findFirstStep = (
+  node: ExpressionNode,
+  parent: ExpressionStep["parent"] = null
+): ExpressionStep | null => {
+  if (node.type === "number") {
+    return null;
+  }
+  return (
+    findFirstStep(node.left, node) ??
+    findFirstStep(node.right, node) ?? { node, parent }
+  );
+};
+
+const getExpressionTip = (question: Question) => {
+  const tree = parseExpression(question.text);
+  const step = tree ? findFirstStep(tree) : null;
+  if (!step) {
+    return "Brackets first, then x and /, then + and - from left to right.";
+  }
+  const { node, parent } = step;
+  const work = `${formatExpression(node)} = ${evaluateExpression(node)}`;
+  if (question.text.includes(`(${formatExpression(node)})`)) {
+    return `Brackets first: ${work}.`;
+  }
+  const multiplicative = node.op === "x" || node.op === "/";
+  if (multiplicative && parent && (parent.op === "+" || parent.op === "-")) {
+    return `x and / come before + and -: ${work}.`;
+  }
+  return `Work left to right: ${work}.`;
+};
+
+const getRemainderTip = (question: Question) => {
+  const parsed = parseOperands(question.text);
+  if (!parsed) {
+    return "Find the nearest multiple below, then count what is left.";
+  }
+  const { left, right } = parsed;
+  const tens = Math.floor(left / (right * 10)) * 10;
+  if (tens > 0) {
+    return `Take out ${right} x ${tens} = ${right * tens} first, then find the nearest multiple of ${right} below what is left.`;
+  }
+  return `Find the nearest multiple of ${right} below ${left}. The gap to ${left} is the remainder.`;
+};
+
+const getMissingOperandTip = (question: Question) => {
+  const match = question.text.match(/^(\S+) (\S) (\S+) = (-?\d+)$/);
+  if (!match) {
+    return "Use the inverse operation to undo the known number.";
+  }
+  const [, left, symbol, right, result] = match;
+  const missingLeft = left === "?";
+  const known = missingLeft ? right : left;
+  if (symbol === "+") {
+    return `Undo the addition: ${result} - ${known}.`;
+  }
+  if (symbol === "x") {
+    return `Undo the multiplication: ${result} / ${known}.`;
+  }
+  if (symbol === "-") {
+    return missingLeft
+      ? `Undo the subtraction: ${result} + ${known}.`
+      : `How far is it from ${result} to ${known}? Work out ${known} - ${result}.`;
+  }
+  if (symbol === "/") {
+    return missingLeft
+      ? `Undo the division: ${result} x ${known}.`
+      : `Which number times ${result} makes ${known}? Work out ${known} / ${result}.`;
+  }
+  return "Use the inverse operation to undo the known number.";
+};
+
+const getIntegerTip = (question: Question) => {
+  const parsed = parseOperands(question.text);
+  if (!parsed) {
+    return "Work out the size first, then decide the sign.";
+  }
+  const { left, right } = parsed;
+  const sizeLeft = Math.abs(left);
+  const sizeRight = Math.abs(right);
+  if (question.kind === "int-sub") {
+    if (right < 0) {
+      return `Subtracting a negative adds: ${left} - (${right}) = ${left} + ${sizeRight}.`;
+    }
+    return `Subtracting is adding the opposite: ${left} + (${-right}).`;
+  }
+  if (question.kind === "int-add") {
+    if (left < 0 && right < 0) {
+      return `Both negative: add ${sizeLeft} + ${sizeRight}, the answer is negative.`;
+    }
+    if (left >= 0 && right >= 0) {
+      return "Both positive: add as usual.";
+    }
+    const bigger = sizeLeft >= sizeRight ? left : right;
+    return `Signs differ: ${Math.max(sizeLeft, sizeRight)} - ${Math.min(
+      sizeLeft,
+      sizeRight
+    )}, keep the sign of ${bigger}.`;
+  }
+  const sameSign = (left < 0) === (right < 0);
+  const op = question.kind === "int-div" ? "/" : "x";
+  return sameSign
+    ? `Same signs give a positive: ${sizeLeft} ${op} ${sizeRight}.`
+    : `Different signs give a negative: ${sizeLeft} ${op} ${sizeRight}, then make it negative.`;
+};
+
+export const getTipForQuestion = (question: Question) => {
+  if (question.skill === "int") {
+    return getIntegerTip(question);
+  }
+  if (question.kind === "div-remainder") {
+    return getRemainderTip(question);
+  }
+  if (question.kind === "missing-left" || question.kind === "missing-right") {
+    return getMissingOperandTip(question);
+  }
+  if (question.skill === "frac") {
+    return getFractionTip(question);
+  }
+  if (question.skill === "dec") {
+    return getDecimalTip(question);
+  }
+  if (question.skill === "pct") {
+    return getPercentTip(question);
+  }
+  if (question.skill === "pow") {
+    return getPowerTip(question);
+  }
+  if (question.skill === "expr") {
+    return getExpressionTip(question);
+  }
+  const parsed = parseOperands(question.text);
+  if (!parsed) {
+    return "Break the problem into smaller chunks.";
+  }
+  const { left, right } = parsed;
+  if (question.skill === "add") {
+    if (left === right) {
+      return `Double ${left}.`;
+    }
+    if ((left % 10) + (right % 10) === 10) {
+      return "Ones make 10. Add tens and carry a ten.";
+    }
+    const big = Math.max(left, right);
+    const small = big === left ? right : left;
+    const shift = (10 - (big % 10)) % 10;
+    if (shift > 0 && shift <= 4 && small >= shift) {
+      return `Shift ${shift} from ${small} to ${big} to make ${
+        big + shift
+      }, then add ${small - shift}.`;
+    }
+    const round10 = roundToBase(small, 10);
+    const adjust10 = round10 - small;
+    if (Math.abs(adjust10) <= 2 && adjust10 !== 0) {
+      return `Round ${small} to ${round10}, then ${formatAdjustment(
+        -adjust10
+      )}.`;
+    }
+    const round100 = roundToBase(small, 100);
+    const adjust100 = round100 - small;
+    if (Math.abs(adjust100) <= 5 && adjust100 !== 0) {
+      return `Round ${small} to ${round100}, then ${formatAdjustment(
+        -adjust100
+      )}.`;
+    }
+    const tens = Math.floor(small / 10) * 10;
+    const ones = small - tens;
+    if (tens !== 0 && ones !== 0) {
+      return `Split ${small} into ${tens} + ${ones}. Add ${tens} then ${ones}.`;
+    }
+    return `Count up ${small} from ${big}.`;
+  }
+  if (question.skill === "sub") {
+    if (left === right) {
+      return "Same numbers cancel to zero.";
+    }
+    if (left < right) {
+      return `Find ${right} - ${left}, then make it negative.`;
+    }
+    const diff = left - right;
+    if (diff <= 10) {
+      return `Count up from ${right} to ${left} in small hops.`;
+    }
+    const rightOnes = right % 10;
+    if (rightOnes === 9) {
+      return `Subtract ${right + 1}, then add 1.`;
+    }
+    if (rightOnes === 8) {
+      return `Subtract ${right + 2}, then add 2.`;
+    }
+    if (rightOnes === 1) {
+      return `Subtract ${right - 1}, then subtract 1.`;
+    }
+    const round10 = roundToBase(right, 10);
+    const adjust10 = round10 - right;
+    if (Math.abs(adjust10) <= 2 && adjust10 !== 0) {
+      return `Subtract ${round10}, then ${formatAdjustment(adjust10)}.`;
+    }
+    const leftOnes = left % 10;
+    if (leftOnes !== 0 && right >= leftOnes) {
+      const remaining = right - leftOnes;
+      if (remaining === 0) {
+        return `Jump to a ten: subtract ${leftOnes} to reach a round ten.`;
+      }
+      return `Jump to a ten: subtract ${leftOnes}, then subtract ${remaining}.`;
+    }
+    if (left >= 100 && left % 100 === 0 && right < 100) {
+      const toHundred = 100 - right;
+      return `Use complements: ${left} - ${right} = (${left} - 100) + ${toHundred}.`;
+    }
+    const tens = Math.floor(right / 10) * 10;
+    const ones = right - tens;
+    if (tens !== 0 && ones !== 0) {
+      return `Subtract ${tens}, then subtract ${ones}.`;
+    }
+    return `Subtract ${right} in one step.`;
+  }
+  if (question.skill === "mul") {
+    if (left === 0 || right === 0) {
+      return "Anything times 0 is 0.";
+    }
+    if (left === 1 || right === 1) {
+      return "Anything times 1 stays the same.";
+    }
+    const big = Math.max(left, right);
+    const small = big === left ? right : left;
+    if (small === 2) {
+      return `Double ${big}.`;
+    }
+    if (small === 3) {
+      return `Double ${big}, then add ${big}.`;
+    }
+    if (small === 4) {
+      return `Double ${big} twice.`;
+    }
+    if (small === 5) {
+      return `Do ${big} x 10, then halve it.`;
+    }
+    if (small === 6) {
+      return `Do ${big} x 3, then double.`;
+    }
+    if (small === 7) {
+      return `Use 5x + 2x: ${big} x 7 = ${big} x 5 + ${big} x 2.`;
+    }
+    if (small === 8) {
+      return `Double ${big} three times.`;
+    }
+    if (small === 9) {
+      return `Do ${big} x 10, then subtract ${big}.`;
+    }
+    if (small === 11) {
+      return `Do ${big} x 10, then add ${big}.`;
+    }
+    if (small === 12) {
+      return `Do ${big} x 10 plus ${big} x 2.`;
+    }
+    if (small > 10 && small < 20) {
+      const extra = small - 10;
+      return `Use ${big} x 10 plus ${big} x ${extra}.`;
+    }
+    if (small === 15) {
+      return `Do ${big} x 10 plus ${big} x 5.`;
+    }
+    if (small === 25) {
+      return `Do ${big} x 100, then divide by 4.`;
+    }
+    if (small === 50) {
+      return `Do ${big} x 100, then halve it.`;
+    }
+    if (small === 100) {
+      return `Add two zeros to ${big}.`;
+    }
+    if (left % 2 === 0 && right % 10 === 5) {
+      return `Halve ${left} and double ${right} to make a round number.`;
+    }
+    if (right % 2 === 0 && left % 10 === 5) {
+      return `Halve ${right} and double ${left} to make a round number.`;
+    }
+    if (small % 10 === 9) {
+      return `Use near-10: ${big} x ${small} = ${big} x ${
+        small + 1
+      } - ${big}.`;
+    }
+    if (small % 10 === 1 && small > 1) {
+      return `Use near-10: ${big} x ${small} = ${big} x ${
+        small - 1
+      } + ${big}.`;
+    }
+    const tens = Math.floor(big / 10) * 10;
+    const ones = big - tens;
+    if (tens !== 0 && ones !== 0) {
+      return `Split ${big} into ${tens} + ${ones}: ${small} x ${tens} + ${small} x ${ones}.`;
+    }
+    return "Break one factor and multiply in parts.";
+  }
+  if (question.skill === "div") {
+    if (right === 1) {
+      return "Divide by 1 stays the same.";
+    }
+    if (right === 2) {
+      return "Half it.";
+    }
+    if (right === 4) {
+      return "Half it twice.";
+    }
+    if (right === 5) {
+      return "Divide by 10, then double.";
+    }
+    if (right === 8) {
+      return "Half it three times.";
+    }
+    if (right === 10) {
+      return "Drop one zero if possible.";
+    }
+    if (right === 25) {
+      return "Divide by 100, then multiply by 4.";
+    }
+    if (right === 50) {
+      return "Divide by 100, then double.";
+    }
+    if (right === 100) {
+      return "Drop two zeros if possible.";
+    }
+    if (left % 100 === 0 && right % 100 === 0) {
+      return `Cancel two zeros: ${left / 100} / ${right / 100}.`;
+    }
+    if (left % 10 === 0 && right % 10 === 0) {
+      return `Cancel one zero: ${left / 10} / ${right / 10}.`;
+    }
+    const common = gcd(left, right);
+    if (common >= 2 && common !== right) {
+      return `Simplify first: divide both numbers by ${common}.`;
+    }
+    const factor = [3, 4, 5, 8, 6, 9, 12, 2].find(
+      (value) => right % value === 0 && value !== right
+    );
+    if (factor) {
+      return `Split the divisor: divide by ${factor}, then by ${right / factor}.`;
+    }
+    return `Use multiplication: ${right} x ? = ${left}.`;
+  }
+  return "Break the problem into smaller chunks.";
+};
@@ -0,0 +1,493 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  canMeetRegroup,
+  checkAnswer,
+  createDefaultStats,
+  createFactHistory,
+  createRng,
+  DEFAULT_CURVE,
+  formatAnswer,
+  formatSeed,
+  generateQuestion,
+  generateSessionQuestion,
+  getBasicFactKey,
+  getExpectedSuccess,
+  getFactMastery,
+  getPaceMs,
+  getSkillRating,
+  getTargetMs,
+  listBasicFacts,
+  parseAnswer,
+  parseLevelCurve,
+  parseSeed,
+  pickSkill,
+  ratingToLevel,
+  scoreDifficulty,
+  TARGET_SUCCESS,
+  updateFactStore,
+  updateStats,
+  type FactStore,
+  type Question,
+  type RegroupMode,
+  type TimingMode,
+} from "../src/math";
+
+const makeQuestion = (overrides: Partial<Question>): Question => ({
+  id: "q",
+  text: "",
+  answer: { num: 1, den: 1 },
+  format: "integer",
+  skill: "add",
+  level: 1,
+  ...overrides,
+});
+
+// The prompts a seeded drill would ask, in order.
+const replay = (seed: number, count = 20) => {
+  const rng = createRng(seed);
+  const stats = createDefaultStats();
+  return Array.from({ length: count }, () => {
+    const skill = pickSkill(stats, rng);
+    return generateQuestion(skill, 5, { rng }).text;
+  });
+};
+
+test("a seed replays the same drill", () => {
+  assert.deepEqual(replay(1234), replay(1234));
+  assert.notDeepEqual(replay(1234), replay(1235));
+});
+
+test("createRng draws in [0, 1)", () => {
+  const rng = createRng(0);
+  for (let index = 0; index < 1000; index += 1) {
+    const value = rng();
+    assert.ok(value >= 0 && value < 1);
+  }
+});
+
+test("seed codes round-trip and reject junk", () => {
+  [0, 1, 1234, 0xffffffff].forEach((seed) => {
+    assert.equal(parseSeed(formatSeed(seed)), seed);
+  });
+  assert.equal(parseSeed(" abc12 "), parseSeed("ABC12"));
+  ["", "abc-1", "zzzzzzz", "12345678"].forEach((code) => {
+    assert.equal(parseSeed(code), null, code);
+  });
+});
+
+test("parseAnswer reads whole numbers, fractions and mixed numbers", () => {
+  assert.deepEqual(parseAnswer(" -12 "), {
+    value: { num: -12, den: 1 },
+    simplified: true,
+  });
+  assert.deepEqual(parseAnswer("3/4"), {
+    value: { num: 3, den: 4 },
+    simplified: true,
+  });
+  assert.deepEqual(parseAnswer("-1  1/2")?.value, { num: -3, den: 2 });
+  assert.equal(parseAnswer("6/4")?.simplified, false);
+});
+
+test("parseAnswer rejects malformed fractions", () => {
+  ["", "abc", "1/0", "1 3/2", "--4", "1/2/3"].forEach((input) => {
+    assert.equal(parseAnswer(input), null, input);
+  });
+});
+
+test("checkAnswer compares values and asks for simplest form", () => {
+  const half = makeQuestion({ answer: { num: 3, den: 2 }, format: "fraction" });
+  assert.equal(checkAnswer(half, "3/2"), true);
+  assert.equal(checkAnswer(half, "1 1/2"), true);
+  assert.equal(checkAnswer(half, "6/4"), false);
+  assert.equal(checkAnswer(half, "6/4", { acceptUnsimplified: true }), true);
+  assert.equal(checkAnswer(half, "5/2"), false);
+  assert.equal(checkAnswer(half, "half"), null);
+  const simplify = makeQuestion({
+    answer: { num: 3, den: 2 },
+    format: "fraction",
+    kind: "simplify",
+  });
+  assert.equal(
+    checkAnswer(simplify, "6/4", { acceptUnsimplified: true }),
+    false
+  );
+});
+
+test("fraction questions accept their own formatted answer", () => {
+  const rng = createRng(7);
+  for (let level = 1; level <= 12; level += 1) {
+    for (let draw = 0; draw < 20; draw += 1) {
+      const question = generateQuestion("frac", level, { rng });
+      assert.equal(checkAnswer(question, formatAnswer(question)), true);
+    }
+  }
+});
+
+test("parseAnswer reads decimals exactly", () => {
+  assert.deepEqual(parseAnswer("0.25"), {
+    value: { num: 1, den: 4 },
+    simplified: true,
+  });
+  assert.deepEqual(parseAnswer("-.5")?.value, { num: -1, den: 2 });
+  assert.deepEqual(parseAnswer("2.50")?.value, { num: 5, den: 2 });
+  assert.equal(parseAnswer("1.2.3"), null);
+  assert.equal(parseAnswer("1."), null);
+});
+
+test("decimal questions accept their own formatted answer", () => {
+  const rng = createRng(11);
+  for (let level = 1; level <= 12; level += 1) {
+    for (let draw = 0; draw < 20; draw += 1) {
+      const question = generateQuestion("dec", level, { rng });
+      assert.equal(question.format, "decimal");
+      assert.equal(checkAnswer(question, formatAnswer(question)), true);
+    }
+  }
+  const tenth = makeQuestion({
+    answer: { num: 3, den: 10 },
+    format: "decimal",
+  });
+  assert.equal(checkAnswer(tenth, "0.3"), true);
+  assert.equal(checkAnswer(tenth, "0.30"), true);
+  assert.equal(checkAnswer(tenth, "3/10"), true);
+});
+
+test("checkAnswer needs the remainder on remainder questions", () => {
+  const question = makeQuestion({
+    skill: "div",
+    format: "remainder",
+    answer: { num: 4, den: 1 },
+    remainder: 2,
+  });
+  assert.equal(parseAnswer("4 r 2")?.remainder, 2);
+  assert.equal(checkAnswer(question, "4 r 2"), true);
+  assert.equal(checkAnswer(question, "4R2"), true);
+  assert.equal(checkAnswer(question, formatAnswer(question)), true);
+  assert.equal(checkAnswer(question, "4 r 1"), false);
+  assert.equal(checkAnswer(question, "4"), false);
+});
+
+test("remainder questions leave a remainder below the divisor", () => {
+  const rng = createRng(5);
+  for (let draw = 0; draw < 50; draw += 1) {
+    const question = generateQuestion("div", 10, { remainders: true, rng });
+    const [dividend, divisor] = question.text.split(" / ").map(Number);
+    const remainder = question.remainder ?? 0;
+    assert.equal(question.format, "remainder");
+    assert.ok(remainder >= 1 && remainder < divisor);
+    assert.equal(question.answer.num * divisor + remainder, dividend);
+  }
+});
+
+// Fills the "?" back in and checks both sides agree.
+const solvesPrompt = (question: Question) => {
+  const [left, symbol, right, , result] = question.text
+    .replace("?", String(question.answer.num))
+    .split(" ");
+  const [a, b, c] = [left, right, result].map(Number);
+  const value =
+    symbol === "+"
+      ? a + b
+      : symbol === "-"
+        ? a - b
+        : symbol === "x"
+          ? a * b
+          : a / b;
+  return value === c;
+};
+
+test("missing-operand prompts hide one operand that fits", () => {
+  const rng = createRng(8);
+  (["add", "sub", "mul", "div"] as const).forEach((skill) => {
+    for (let draw = 0; draw < 40; draw += 1) {
+      const question = generateQuestion(skill, 8, {
+        unknown: "operand",
+        allowNegative: true,
+        rng,
+      });
+      assert.match(question.kind ?? "", /^missing-(left|right)$/);
+      assert.ok(solvesPrompt(question), question.text);
+    }
+  });
+});
+
+test("missing-operand prompts keep negative results", () => {
+  const rng = createRng(3);
+  const prompts = Array.from({ length: 60 }, () =>
+    generateQuestion("sub", 6, { unknown: "operand", allowNegative: true, rng })
+  ).filter((question) => / = -\d+$/.test(question.text));
+  assert.ok(prompts.length > 0);
+  prompts.forEach((question) => {
+    assert.ok(solvesPrompt(question), question.text);
+  });
+});
+
+test("parseLevelCurve pads a ladder to levelCount by step", () => {
+  const { curve, errors } = parseLevelCurve({
+    name: " Gentle ",
+    skills: { add: { levels: [{ maxA: 5, maxB: 5 }], levelCount: 3, step: 5 } },
+  });
+  assert.deepEqual(errors, []);
+  assert.equal(curve?.name, "Gentle");
+  assert.deepEqual(
+    curve?.levels.add.map((spec) => spec.maxA),
+    [5, 10, 15]
+  );
+  assert.equal(curve?.levels.sub, DEFAULT_CURVE.levels.sub);
+});
+
+test("parseLevelCurve reports every problem it finds", () => {
+  const { curve, errors } = parseLevelCurve({
+    skills: {
+      nope: { levels: [{ maxA: 1, maxB: 1 }] },
+      add: { levels: [{ maxA: 1, colour: "red" }] },
+      sub: { levels: [], levelCount: 2 },
+    },
+  });
+  assert.equal(curve, null);
+  assert.deepEqual(errors, [
+    'Unknown skill "nope".',
+    'add level 1: unknown field "colour".',
+    "add level 1: maxB is required.",
+    "sub: levels must be a non-empty list.",
+  ]);
+});
+
+test("parseLevelCurve bounds levelCount and decimal places", () => {
+  assert.deepEqual(
+    parseLevelCurve({
+      skills: { add: { levels: [{ maxA: 1, maxB: 1 }], levelCount: 500 } },
+    }).errors,
+    ["add: levelCount must be between 1 and 200."]
+  );
+  assert.deepEqual(
+    parseLevelCurve({
+      skills: {
+        dec: {
+          levels: [{ maxA: 1, maxB: 1, places: 400, kinds: ["dec-add"] }],
+        },
+      },
+    }).errors,
+    ["dec level 1: places must be between 1 and 4."]
+  );
+});
+
+test("parseLevelCurve rejects documents that are not objects", () => {
+  assert.deepEqual(parseLevelCurve([]).errors, [
+    "The curve must be a JSON object.",
+  ]);
+  assert.deepEqual(parseLevelCurve({ skills: 3 }).errors, [
+    "skills must map skill keys to ladders.",
+  ]);
+});
+
+test("questions follow a custom curve's ranges", () => {
+  const { curve } = parseLevelCurve({
+    skills: { add: { levels: [{ minA: 7, maxA: 7, minB: 2, maxB: 2 }] } },
+  });
+  assert.ok(curve);
+  assert.equal(generateQuestion("add", 1, { curve }).text, "7 + 2");
+});
+
+test("a fresh skill is rated to succeed at TARGET_SUCCESS", () => {
+  const stats = createDefaultStats();
+  const rating = getSkillRating(stats.add);
+  assert.ok(Math.abs(getExpectedSuccess(rating, 1) - TARGET_SUCCESS) < 1e-9);
+  assert.equal(ratingToLevel(rating, 50), 1);
+});
+
+test("the rating engine moves the rating and level with each answer", () => {
+  const engine = { engine: "rating" as const };
+  let stats = createDefaultStats();
+  const start = getSkillRating(stats.add);
+  stats = updateStats(stats, "add", true, 500, engine);
+  const afterFast = stats.add.rating ?? 0;
+  assert.ok(afterFast > start);
+  stats = updateStats(stats, "add", false, 500, engine);
+  assert.ok((stats.add.rating ?? 0) < afterFast);
+
+  for (let answer = 0; answer < 30; answer += 1) {
+    stats = updateStats(stats, "add", true, 500, engine);
+  }
+  const rating = stats.add.rating ?? 0;
+  assert.ok(stats.add.level > 1);
+  assert.equal(stats.add.level, ratingToLevel(rating, 50));
+});
+
+test("a slow correct answer gains less rating than a fast one", () => {
+  const engine = { engine: "rating" as const };
+  const fast = updateStats(createDefaultStats(), "add", true, 500, engine);
+  const slow = updateStats(createDefaultStats(), "add", true, 60000, engine);
+  assert.ok((slow.add.rating ?? 0) < (fast.add.rating ?? 0));
+});
+
+test("the streak engine keeps no rating", () => {
+  let stats = updateStats(createDefaultStats(), "add", true, 500, {
+    engine: "rating",
+  });
+  assert.notEqual(stats.add.rating, undefined);
+  stats = updateStats(stats, "add", true, 500, { engine: "streak" });
+  assert.equal(stats.add.rating, undefined);
+  stats = updateStats(stats, "add", true, 500, { engine: "streak" });
+  stats = updateStats(stats, "add", true, 500, { engine: "streak" });
+  assert.equal(stats.add.level, 2);
+});
+
+test("basic facts are keyed by the fact they practise", () => {
+  const key = (text: string, skill: Question["skill"], num: number) =>
+    getBasicFactKey(makeQuestion({ text, skill, answer: { num, den: 1 } }));
+  assert.equal(key("7 x 3", "mul", 21), "mul:3 x 7");
+  assert.equal(key("13 - 5", "sub", 8), "sub:13 - 5");
+  assert.equal(key("21 / 3", "div", 7), "div:21 / 3");
+  assert.equal(key("? + 4 = 9", "add", 5), "add:4 + 5");
+  assert.equal(key("? - 7 = -3", "sub", 4), null);
+  assert.equal(key("14 x 3", "mul", 42), null);
+  assert.equal(listBasicFacts("mul").length, 91);
+});
+
+test("a fact becomes automatic once fast and accurate enough", () => {
+  const question = makeQuestion({
+    text: "6 x 7",
+    skill: "mul",
+    answer: { num: 42, den: 1 },
+  });
+  let store: FactStore = {};
+  assert.equal(getFactMastery(store["mul:6 x 7"]), "new");
+  store = updateFactStore(store, question, true, 1500);
+  assert.equal(getFactMastery(store["mul:6 x 7"]), "learning");
+  store = updateFactStore(store, question, true, 1500);
+  store = updateFactStore(store, question, true, 1500);
+  assert.equal(getFactMastery(store["mul:6 x 7"]), "automatic");
+  store = updateFactStore(store, question, false, 1500);
+  assert.equal(getFactMastery(store["mul:6 x 7"]), "learning");
+});
+
+test("facts still being learned are asked more often", () => {
+  const { curve } = parseLevelCurve({
+    skills: { mul: { levels: [{ maxA: 12, maxB: 12 }] } },
+  });
+  assert.ok(curve);
+  const learning = (key: string) => /\b7\b/.test(key);
+  const facts: FactStore = {};
+  listBasicFacts("mul").forEach((key) => {
+    facts[key] = learning(key)
+      ? { attempts: 3, accuracy: 0.5, avgMs: 5000, lastSeen: 0 }
+      : { attempts: 5, accuracy: 1, avgMs: 1000, lastSeen: 0 };
+  });
+  const share = (store?: FactStore) => {
+    const rng = createRng(21);
+    let hits = 0;
+    for (let draw = 0; draw < 300; draw += 1) {
+      const { question } = generateSessionQuestion(
+        "mul",
+        1,
+        createFactHistory(),
+        { rng, curve, facts: store }
+      );
+      hits += learning(getBasicFactKey(question) ?? "") ? 1 : 0;
+    }
+    return hits / 300;
+  };
+  assert.ok(share(facts) > share() * 2);
+});
+
+test("a missing operand with a negative result is still scored", () => {
+  const question = makeQuestion({
+    text: "? - 77 = -70",
+    skill: "sub",
+    kind: "missing-left",
+    answer: { num: 7, den: 1 },
+  });
+  assert.equal(scoreDifficulty(question), 4);
+});
+
+test("difficulty bands pick easier or harder questions", () => {
+  const average = (band: "easy" | "hard") => {
+    const rng = createRng(8);
+    let total = 0;
+    for (let draw = 0; draw < 100; draw += 1) {
+      total += generateQuestion("mul", 6, { rng, band }).difficulty ?? 0;
+    }
+    return total / 100;
+  };
+  assert.ok(average("easy") < average("hard"));
+});
+
+test("aiming at a strong learner picks the hardest candidate", () => {
+  const aim = {
+    ...createDefaultStats().mul,
+    level: 6,
+    rating: 2000,
+    history: [{ correct: true, ms: 2000, difficulty: 3 }],
+  };
+  for (let seed = 1; seed <= 20; seed += 1) {
+    const aimed = generateQuestion("mul", 6, { rng: createRng(seed), aim });
+    const hard = generateQuestion("mul", 6, {
+      rng: createRng(seed),
+      band: "hard",
+    });
+    assert.ok((aimed.difficulty ?? 0) >= (hard.difficulty ?? 0));
+  }
+});
+
+test("regrouping modes shape the operands drawn", () => {
+  const { curve } = parseLevelCurve({
+    skills: {
+      add: { levels: [{ minA: 10, maxA: 99, minB: 10, maxB: 99 }] },
+      sub: { levels: [{ minA: 100, maxA: 999, minB: 1, maxB: 99 }] },
+    },
+  });
+  assert.ok(curve);
+  const rng = createRng(16);
+  const operands = (skill: "add" | "sub", regroup: RegroupMode) => {
+    const { text } = generateQuestion(skill, 1, { rng, curve, regroup });
+    return text.split(/ [+-] /).map(Number);
+  };
+  for (let draw = 0; draw < 20; draw += 1) {
+    const [a, b] = operands("add", "none");
+    assert.ok((a % 10) + (b % 10) < 10 && a + b < 100);
+    const [c, d] = operands("add", "every");
+    assert.ok((c % 10) + (d % 10) >= 10 && c + d >= 100);
+    const [high, low] = operands("sub", "zero");
+    assert.ok(String(high).slice(1).includes("0") && low % 10 > high % 10);
+  }
+});
+
+test("levels too small for a regrouping mode are reported", () => {
+  const { curve } = parseLevelCurve({
+    skills: { add: { levels: [{ maxA: 4, maxB: 4 }] } },
+  });
+  assert.ok(curve);
+  assert.equal(canMeetRegroup("add", 1, "none", curve), true);
+  assert.equal(canMeetRegroup("add", 1, "one", curve), false);
+  assert.equal(canMeetRegroup("add", 1, "zero", curve), true);
+  assert.equal(canMeetRegroup("mul", 1, "every", curve), true);
+  assert.equal(canMeetRegroup("sub", 10, "zero"), true);
+});
+
+test("looser timing modes give correct answers more slack", () => {
+  const stats = createDefaultStats();
+  const target = getTargetMs(stats.add);
+  assert.equal(getPaceMs(stats.add), target);
+  assert.equal(getPaceMs(stats.add, undefined, "soft"), target);
+  assert.equal(getPaceMs(stats.add, undefined, "none"), target * 1.5);
+
+  const climb = (ms: number, timing: TimingMode) => {
+    let next = stats;
+    for (let answer = 0; answer < 3; answer += 1) {
+      next = updateStats(next, "add", true, ms, { timing });
+    }
+    return next.add.level;
+  };
+  const slow = Math.round(target * 1.3);
+  assert.equal(climb(slow, "question"), 1);
+  assert.equal(climb(slow, "session"), 1);
+  assert.equal(climb(slow, "none"), 2);
+  assert.equal(climb(target * 2, "none"), 1);
+
+  const rate = (timing: TimingMode) =>
+    updateStats(stats, "add", true, slow, { engine: "rating", timing }).add
+      .rating ?? 0;
+  assert.ok(rate("none") > rate("question"));
+});
@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DEFAULT_CURVE, type SkillKey } from "../src/math";
+import {
+  createPlacement,
+  getPlacementLevels,
+  getPlacementStep,
+  isPlacementPass,
+  recordPlacementAnswer,
+  type PlacementState,
+} from "../src/placement";
+
+// Answers every step as a learner who can do exactly `levels` would.
+const runPlacement = (
+  state: PlacementState,
+  levels: Partial<Record<SkillKey, number>>
+) => {
+  let current = state;
+  for (let step = getPlacementStep(current); step; ) {
+    const passed = step.level <= (levels[step.skill] ?? 0);
+    current = recordPlacementAnswer(current, step.skill, step.level, passed);
+    step = getPlacementStep(current);
+  }
+  return current;
+};
+
+test("createPlacement spans each skill's own ladder", () => {
+  const state = createPlacement(DEFAULT_CURVE, ["add", "dec"]);
+  assert.deepEqual(state.ranges.add, {
+    low: 1,
+    high: DEFAULT_CURVE.levels.add.length,
+    asked: 0,
+  });
+  assert.equal(state.ranges.dec?.high, DEFAULT_CURVE.levels.dec.length);
+});
+
+test("placement probes the middle and narrows by halves", () => {
+  const state = createPlacement(DEFAULT_CURVE, ["add"]);
+  assert.deepEqual(getPlacementStep(state), { skill: "add", level: 26 });
+  const passed = recordPlacementAnswer(state, "add", 26, true);
+  assert.deepEqual(passed.ranges.add, { low: 26, high: 50, asked: 1 });
+  const failed = recordPlacementAnswer(state, "add", 26, false);
+  assert.deepEqual(failed.ranges.add, { low: 1, high: 25, asked: 1 });
+});
+
+test("placement lands on the highest level passed", () => {
+  const done = runPlacement(createPlacement(DEFAULT_CURVE, ["add"]), {
+    add: 17,
+  });
+  assert.equal(done.ranges.add?.asked, 5);
+  assert.deepEqual(getPlacementLevels(done), { add: 17 });
+});
+
+test("placement stops early once a range closes", () => {
+  const done = runPlacement(createPlacement(DEFAULT_CURVE, ["add"], 20), {
+    add: 9,
+  });
+  assert.deepEqual(done.ranges.add, { low: 9, high: 9, asked: 6 });
+});
+
+test("placement takes turns between skills", () => {
+  const state = createPlacement(DEFAULT_CURVE, ["add", "mul"]);
+  const first = getPlacementStep(state);
+  const second = getPlacementStep(
+    recordPlacementAnswer(state, "add", 26, true)
+  );
+  assert.equal(first?.skill, "add");
+  assert.equal(second?.skill, "mul");
+});
+
+test("isPlacementPass needs a correct answer within twice the target", () => {
+  assert.equal(isPlacementPass(false, 100, 1), false);
+  assert.equal(isPlacementPass(true, 100, 1), true);
+  assert.equal(isPlacementPass(true, 10 * 60 * 1000, 1), false);
+});
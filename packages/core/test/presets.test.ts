@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DEFAULT_CURVE, parseLevelCurve } from "../src/math";
+import {
+  exportPreset,
+  normalizePresets,
+  parsePreset,
+  type PresetDraft,
+} from "../src/presets";
+
+const draft: PresetDraft = {
+  name: "Tables warm-up",
+  skills: [
+    { skill: "mul", weight: 3, minLevel: 2, maxLevel: 4 },
+    { skill: "div", weight: 1 },
+  ],
+  questionCount: 20,
+  timeLimitSeconds: 10,
+  negativeLevel: 0,
+};
+
+test("parsePreset reads back an exported preset", () => {
+  const { preset, errors } = parsePreset(JSON.parse(exportPreset(draft)));
+  assert.deepEqual(errors, []);
+  assert.deepEqual(preset, draft);
+});
+
+test("parsePreset fills a single level bound from the other", () => {
+  const { preset } = parsePreset({
+    ...draft,
+    skills: [{ skill: "add", weight: 1, minLevel: 5 }],
+  });
+  assert.deepEqual(preset?.skills, [
+    { skill: "add", weight: 1, minLevel: 5, maxLevel: 5 },
+  ]);
+});
+
+test("parsePreset reports every problem it finds", () => {
+  const { preset, errors } = parsePreset({
+    name: "  ",
+    skills: [
+      { skill: "mul", weight: 9 },
+      { skill: "mul", weight: 1 },
+      { skill: "nope", weight: 1 },
+      { skill: "div", weight: 1, minLevel: 4, maxLevel: 2 },
+    ],
+    questionCount: 500,
+    timeLimitSeconds: 10,
+    negativeLevel: -1,
+  });
+  const divLevels = DEFAULT_CURVE.levels.div.length;
+  assert.equal(preset, null);
+  assert.deepEqual(errors, [
+    "name must be 1 to 40 characters.",
+    "mul: weight must be between 1 and 5.",
+    "mul: listed more than once.",
+    'Unknown skill "nope".',
+    `div: levels must run from 1 to ${divLevels}, low to high.`,
+    "questionCount must be between 5 and 50.",
+    `negativeLevel must be between 0 and ${DEFAULT_CURVE.maxLevel}.`,
+  ]);
+});
+
+test("parsePreset checks levels against the given curve", () => {
+  const { curve } = parseLevelCurve({
+    skills: { mul: { levels: [{ maxA: 2, maxB: 2 }], levelCount: 4 } },
+  });
+  assert.ok(curve);
+  assert.deepEqual(parsePreset(draft, curve).errors, []);
+  const deep = {
+    ...draft,
+    skills: [{ skill: "mul", weight: 1, minLevel: 2, maxLevel: 8 }],
+  };
+  assert.deepEqual(parsePreset(deep, curve).errors, [
+    "mul: levels must run from 1 to 4, low to high.",
+  ]);
+  assert.deepEqual(parsePreset(deep, null).errors, []);
+});
+
+test("parsePreset rejects documents that are not objects", () => {
+  assert.deepEqual(parsePreset("preset").errors, [
+    "The preset must be a JSON object.",
+  ]);
+  assert.deepEqual(parsePreset([draft]).errors, [
+    "The preset must be a JSON object.",
+  ]);
+});
+
+test("normalizePresets keeps valid presets with unique ids", () => {
+  const presets = normalizePresets([
+    { id: "a", ...draft },
+    { id: "a", ...draft, name: "Copy" },
+    { ...draft, name: "No id" },
+    { id: "b", ...draft, questionCount: 0 },
+    // Saved presets are not checked against the curve.
+    {
+      id: "c",
+      ...draft,
+      skills: [{ skill: "add", weight: 1, minLevel: 900, maxLevel: 900 }],
+    },
+    null,
+  ]);
+  assert.deepEqual(
+    presets.map((preset) => preset.id),
+    ["a", "c"]
+  );
+  assert.equal(presets[0].name, draft.name);
+  assert.deepEqual(normalizePresets({ id: "a" }), []);
+});
@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createFactHistory, createRng } from "../src/math";
+import {
+  createTrackedRng,
+  normalizeSavedSession,
+  type SavedSession,
+} from "../src/resume";
+import { createSurvivalRun } from "../src/survival";
+
+const saved: SavedSession = {
+  kind: "standard",
+  mode: "add",
+  sessionSeed: null,
+  rngSeed: 42,
+  draws: 7,
+  history: createFactHistory(),
+  tableDrill: null,
+  preset: null,
+  mistakeQueue: [],
+  placement: null,
+  survival: null,
+  session: { correct: 2, wrong: 1 },
+  questionIndex: 3,
+  question: {
+    id: "q",
+    text: "3 + 4",
+    answer: { num: 7, den: 1 },
+    format: "integer",
+    skill: "add",
+    level: 1,
+  },
+  feedback: null,
+  budgetLeft: null,
+};
+
+const roundTrip = (value: unknown) =>
+  normalizeSavedSession(JSON.parse(JSON.stringify(value)));
+
+test("normalizeSavedSession keeps a valid snapshot", () => {
+  assert.deepEqual(roundTrip(saved), saved);
+  assert.deepEqual(roundTrip({ ...saved, budgetLeft: 45 })?.budgetLeft, 45);
+});
+
+test("normalizeSavedSession drops optional state that is malformed", () => {
+  const session = roundTrip({
+    ...saved,
+    sessionSeed: -3,
+    budgetLeft: 1.5,
+    feedback: { correct: "yes" },
+  });
+  assert.equal(session?.sessionSeed, null);
+  assert.equal(session?.budgetLeft, null);
+  assert.equal(session?.feedback, null);
+});
+
+test("normalizeSavedSession rejects snapshots it cannot carry on", () => {
+  [
+    null,
+    "saved",
+    { ...saved, kind: "sprint" },
+    { ...saved, mode: "nope" },
+    { ...saved, question: { ...saved.question, answer: { num: 1, den: 0 } } },
+    { ...saved, history: { seen: [] } },
+    { ...saved, draws: -1 },
+    { ...saved, session: { correct: 1 } },
+  ].forEach((value, index) => {
+    assert.equal(roundTrip(value), null, `case ${index}`);
+  });
+});
+
+test("normalizeSavedSession needs the state its kind depends on", () => {
+  assert.equal(roundTrip({ ...saved, kind: "survival" }), null);
+  assert.equal(roundTrip({ ...saved, kind: "placement" }), null);
+  assert.equal(roundTrip({ ...saved, kind: "mistakes" }), null);
+  const survival = createSurvivalRun(3);
+  assert.deepEqual(
+    roundTrip({ ...saved, kind: "survival", survival })?.survival,
+    survival
+  );
+});
+
+test("createTrackedRng carries on from the saved draw count", () => {
+  const tracked = createTrackedRng(9);
+  const first = [tracked.next(), tracked.next(), tracked.next()];
+  assert.equal(tracked.draws, 3);
+  const resumed = createTrackedRng(9, tracked.draws);
+  assert.equal(resumed.next(), tracked.next());
+  const plain = createRng(9);
+  assert.deepEqual(first, [plain(), plain(), plain()]);
+});
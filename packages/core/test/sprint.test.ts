@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  getSprintBest,
+  getSprintRate,
+  normalizeSprintBests,
+  updateSprintBests,
+} from "../src/sprint";
+
+test("sprint rates are correct answers per minute", () => {
+  assert.equal(getSprintRate(15, 30), 30);
+  assert.equal(getSprintRate(25, 120), 12.5);
+  assert.equal(getSprintRate(10, 0), 0);
+});
+
+test("a sprint best is kept per mode and length", () => {
+  const first = updateSprintBests({}, "add", 60, 20, 1);
+  assert.equal(first.isBest, true);
+  assert.equal(first.previous, null);
+  assert.deepEqual(getSprintBest(first.bests, "add", 60), {
+    score: 20,
+    rate: 20,
+    achievedAt: 1,
+  });
+  assert.equal(getSprintBest(first.bests, "add", 30), null);
+  assert.equal(getSprintBest(first.bests, "mix", 60), null);
+
+  const tie = updateSprintBests(first.bests, "add", 60, 20, 2);
+  assert.equal(tie.isBest, false);
+  assert.equal(tie.bests, first.bests);
+
+  const better = updateSprintBests(first.bests, "add", 60, 24, 3);
+  assert.equal(better.isBest, true);
+  assert.equal(better.previous?.score, 20);
+  assert.equal(getSprintBest(better.bests, "add", 60)?.score, 24);
+});
+
+test("a sprint with no correct answers sets no best", () => {
+  const result = updateSprintBests({}, "mix", 30, 0);
+  assert.equal(result.isBest, false);
+  assert.deepEqual(result.bests, {});
+});
+
+test("stored sprint bests drop unknown modes and lengths", () => {
+  const bests = normalizeSprintBests({
+    "mul:30": { score: 12.4, rate: 99, achievedAt: 5 },
+    "mix:45": { score: 10, achievedAt: 5 },
+    "nope:60": { score: 10, achievedAt: 5 },
+    "add:60": { score: -3, achievedAt: 5 },
+  });
+  assert.deepEqual(bests, {
+    "mul:30": { score: 12, rate: 24, achievedAt: 5 },
+  });
+  assert.deepEqual(normalizeSprintBests("junk"), {});
+});
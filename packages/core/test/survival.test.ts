@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { DEFAULT_CURVE, MIX_SKILLS, parseLevelCurve } from "../src/math";
+import {
+  createSurvivalRun,
+  getSurvivalMaxLevel,
+  isSurvivalOver,
+  recordSurvivalAnswer,
+  SURVIVAL_LIVES,
+  SURVIVAL_STEP,
+  type SurvivalRun,
+} from "../src/survival";
+
+const answer = (run: SurvivalRun, results: boolean[], maxLevel = 50) =>
+  results.reduce(
+    (current, correct) => recordSurvivalAnswer(current, correct, maxLevel),
+    run
+  );
+
+test("survival rises a level every SURVIVAL_STEP correct answers", () => {
+  const steps = Array<boolean>(SURVIVAL_STEP).fill(true);
+  const once = answer(createSurvivalRun(), steps);
+  assert.deepEqual(once, {
+    lives: SURVIVAL_LIVES,
+    level: 2,
+    climb: 0,
+    correct: SURVIVAL_STEP,
+    peakLevel: 2,
+  });
+  const twice = answer(once, [...steps, true]);
+  assert.equal(twice.level, 3);
+  assert.equal(twice.climb, 1);
+});
+
+test("a miss costs a life but keeps the level and climb", () => {
+  const run = answer(createSurvivalRun(4), [true, false]);
+  assert.equal(run.lives, SURVIVAL_LIVES - 1);
+  assert.equal(run.level, 4);
+  assert.equal(run.climb, 1);
+  assert.equal(run.correct, 1);
+});
+
+test("survival ends once every life is lost", () => {
+  const misses = Array<boolean>(SURVIVAL_LIVES).fill(false);
+  const run = answer(createSurvivalRun(), misses);
+  assert.equal(isSurvivalOver(run), true);
+  assert.equal(answer(run, [false]).lives, 0);
+});
+
+test("survival stops rising at the ladder's last level", () => {
+  const run = answer(
+    createSurvivalRun(2),
+    Array<boolean>(SURVIVAL_STEP * 4).fill(true),
+    3
+  );
+  assert.equal(run.level, 3);
+  assert.equal(run.peakLevel, 3);
+  assert.equal(run.correct, SURVIVAL_STEP * 4);
+});
+
+test("getSurvivalMaxLevel uses the skill's own ladder", () => {
+  const decLevels = DEFAULT_CURVE.levels.dec.length;
+  assert.ok(decLevels < DEFAULT_CURVE.maxLevel);
+  assert.equal(getSurvivalMaxLevel(DEFAULT_CURVE, "dec"), decLevels);
+
+  const { curve } = parseLevelCurve({
+    skills: {
+      add: { levels: [{ maxA: 5, maxB: 5 }], levelCount: 60, step: 5 },
+      mul: { levels: [{ maxA: 2, maxB: 2 }], levelCount: 4 },
+      pow: { levels: [{ maxA: 2, maxB: 2 }], levelCount: 80 },
+    },
+  });
+  assert.ok(curve);
+  assert.equal(getSurvivalMaxLevel(curve, "mul"), 4);
+  assert.equal(
+    getSurvivalMaxLevel(curve, "mix"),
+    Math.max(...MIX_SKILLS.map((skill) => curve.levels[skill].length))
+  );
+  assert.equal(getSurvivalMaxLevel(curve, "mix"), 60);
+});
@@ -3,69 +3,178 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import styles from "./page.module.css";
 import {
+  ADAPTIVITY_ENGINES,
+  addMistakeEntry,
+  applyPlacement,
+  applyPresetSettings,
+  AGE_GROUP_LABELS,
+  AGE_GROUPS,
+  AUTOMATIC_MS,
+  buildMistakeQuestion,
+  buildMistakeQueue,
+  canMeetRegroup,
+  checkAnswer,
   createDefaultStats,
-  generateQuestion,
+  createFactHistory,
+  createPlacement,
+  createPresetDraft,
+  createPresetId,
+  createPresetQuestion,
+  createSurvivalRun,
+  createQuestion,
+  createSeed,
+  createTrackedRng,
+  CURVE_KEY,
+  DEFAULT_CURVE,
+  DEFAULT_SETTINGS,
+  DIFFICULTY_BANDS,
+  exportPreset,
+  FACTS_KEY,
+  formatAnswer,
+  formatMs,
+  formatSeconds,
+  formatSeed,
   getAccuracy,
   getAverageMs,
+  getFactMastery,
+  getFeedbackText,
+  getKeypadRows,
+  getPlacementLength,
+  getPlacementLevels,
+  getPlacementQuestion,
+  getSprintBest,
+  getSprintRate,
+  getSurvivalMaxLevel,
+  getSkillRating,
+  getTableDrillLabel,
+  getTableMastery,
   getTargetMs,
+  getTipForQuestion,
   getWeakestSkill,
-  MAX_LEVEL,
-  pickSkill,
+  getWeakestTable,
+  isPlacementPass,
+  isSurvivalOver,
+  listBasicFacts,
+  MAX_PRESET_NAME,
+  MAX_PRESET_WEIGHT,
+  MAX_REPEAT_GAP,
+  MAX_TABLE_FACTOR,
+  MISTAKES_KEY,
+  MIX_SKILLS,
+  normalizeFactStore,
+  normalizeMistakes,
+  normalizePresets,
+  normalizeSavedSession,
+  normalizeSettings,
+  normalizeSprintBests,
+  normalizeSurvivalBests,
+  normalizeStats,
+  parseLevelCurve,
+  parsePreset,
+  parseSeed,
+  PLACEMENT_QUESTIONS,
+  PRESET_QUESTION_RANGE,
+  PRESET_TIME_RANGE,
+  PRESETS_KEY,
+  recordPlacementAnswer,
+  recordSurvivalAnswer,
+  REGROUP_MODES,
+  removeMistakeEntry,
+  SESSION_KEY,
+  SESSION_SECONDS_RANGE,
+  SETTINGS_KEY,
   SKILL_LABELS,
+  SKILL_LIST,
   SKILL_SYMBOLS,
+  SPACE_KEY,
+  SPRINT_DURATIONS,
+  SPRINTS_KEY,
+  STORAGE_KEY,
+  SURVIVAL_KEY,
+  SURVIVAL_LIVES,
+  SURVIVAL_STEP,
+  TABLE_OPS,
+  THEME_KEY,
+  TIMES_TABLES,
+  TIMING_MODES,
+  UNKNOWN_MODES,
+  type AdaptivityEngine,
+  type DifficultyBand,
+  type DrillPreset,
+  type FactHistory,
+  type FactStore,
+  type Feedback,
+  type LevelCurve,
+  type LevelSpec,
+  type MistakeItem,
+  type PlacementState,
   type Mode,
+  type PresetDraft,
+  type PresetSkill,
   type Question,
+  type RegroupMode,
+  type SavedSession,
+  type Settings,
   type SkillKey,
+  type SprintBest,
+  type SprintBests,
+  type SurvivalBest,
+  type SurvivalBests,
+  type SurvivalRun,
   type Stats,
+  type TableDrill,
+  type TableOps,
+  type TimingMode,
+  type TrackedRng,
+  type UnknownMode,
+  updateFactStore,
+  updateSprintBests,
+  updateSurvivalBests,
   updateStats,
-} from "@/lib/math";
+} from "@math-training/core";
 import { showPopUnder } from "@/components/PopUnderAd";
 
-const STORAGE_KEY = "math-training-state";
-const THEME_KEY = "math-training-theme";
-const SETTINGS_KEY = "math-training-settings";
-const MISTAKES_KEY = "math-training-mistakes";
-const DEFAULT_SETTINGS = {
-  questionCount: 10,
-  timeLimitSeconds: 10,
-  negativeLevel: 0,
-};
-const MAX_MISTAKES = 50;
 const ADSTERRA_SCRIPT_SRC =
   "https://pl28463616.effectivegatecpm.com/9c9ea4fbff8dd33e714120c2cb2ec0d5/invoke.js";
 const ADSTERRA_CONTAINER_ID = "container-9c9ea4fbff8dd33e714120c2cb2ec0d5";
 const ADSTERRA_SCRIPT_ID = "adsterra-native-9c9ea4fbff8dd33e714120c2cb2ec0d5";
 
-type Feedback = {
-  correct: boolean;
-  expected: number;
-  ms: number;
-  skill: SkillKey;
-  level: number;
-  timedOut?: boolean;
-};
-
-type MistakeItem = {
-  id: string;
-  text: string;
-  answer: number;
-  skill: SkillKey;
-  level: number;
-  misses: number;
-  lastMissedAt: number;
-};
-
-type Screen = "menu" | "drill" | "settings" | "summary" | "stats";
-
-type Settings = {
-  questionCount: number;
-  timeLimitSeconds: number;
-  negativeLevel: number;
+type Screen =
+  | "menu"
+  | "drill"
+  | "settings"
+  | "summary"
+  | "stats"
+  | "tables"
+  | "sprint"
+  | "survival"
+  | "builder";
+
+type SessionKind =
+  | "standard"
+  | "mistakes"
+  | "tables"
+  | "placement"
+  | "sprint"
+  | "survival"
+  | "preset";
+
+type SessionOptions = {
+  tableDrill?: TableDrill | null;
+  preset?: DrillPreset | null;
+  kind?: SessionKind;
+  level?: number;
 };
 
-type SessionKind = "standard" | "mistakes";
-
-type MenuAction = { type: "mode"; mode: Mode } | { type: "mistakes" };
+type MenuAction =
+  | { type: "mode"; mode: Mode }
+  | { type: "mistakes" }
+  | { type: "tables" }
+  | { type: "placement" }
+  | { type: "sprint" }
+  | { type: "survival" }
+  | { type: "preset"; id: string }
+  | { type: "builder" };
 
 type MenuItem = {
   key: string;
@@ -76,352 +185,101 @@ type MenuItem = {
   disabled: boolean;
 };
 
-const formatMs = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
-const formatSeconds = (value: number) => `${String(value).padStart(2, "0")}s`;
-
-const isSkillKey = (value: unknown): value is SkillKey =>
-  value === "add" || value === "sub" || value === "mul" || value === "div";
-
-const makeMistakeId = (question: Question) =>
-  `${question.skill}:${question.text}`;
-
-const normalizeMistakes = (value: unknown): MistakeItem[] => {
-  if (!Array.isArray(value)) {
-    return [];
-  }
-  const cleaned: MistakeItem[] = [];
-  value.forEach((entry) => {
-    if (!entry || typeof entry !== "object") {
-      return;
-    }
-    const item = entry as Partial<MistakeItem>;
-    if (typeof item.text !== "string" || !isSkillKey(item.skill)) {
-      return;
-    }
-    const answer = Number(item.answer);
-    if (!Number.isFinite(answer)) {
-      return;
-    }
-    const level = Number(item.level);
-    const misses = Number(item.misses);
-    const lastMissedAt = Number(item.lastMissedAt);
-    cleaned.push({
-      id:
-        typeof item.id === "string"
-          ? item.id
-          : `${item.skill}:${item.text}`,
-      text: item.text,
-      answer,
-      skill: item.skill,
-      level: Number.isFinite(level) ? level : 1,
-      misses: Number.isFinite(misses) && misses > 0 ? misses : 1,
-      lastMissedAt: Number.isFinite(lastMissedAt) ? lastMissedAt : Date.now(),
-    });
-  });
-  return cleaned.slice(0, MAX_MISTAKES);
+const UNKNOWN_LABELS: Record<UnknownMode, string> = {
+  result: "Answer only",
+  mixed: "Mixed",
+  operand: "Missing number",
 };
 
-const addMistakeEntry = (
-  items: MistakeItem[],
-  question: Question
-): MistakeItem[] => {
-  const id = makeMistakeId(question);
-  const now = Date.now();
-  const existingIndex = items.findIndex((item) => item.id === id);
-  if (existingIndex === -1) {
-    return [
-      {
-        id,
-        text: question.text,
-        answer: question.answer,
-        skill: question.skill,
-        level: question.level,
-        misses: 1,
-        lastMissedAt: now,
-      },
-      ...items,
-    ].slice(0, MAX_MISTAKES);
-  }
-  const next = [...items];
-  const existing = next[existingIndex];
-  next.splice(existingIndex, 1);
-  return [
-    {
-      ...existing,
-      answer: question.answer,
-      level: question.level,
-      misses: existing.misses + 1,
-      lastMissedAt: now,
-    },
-    ...next,
-  ].slice(0, MAX_MISTAKES);
+const ENGINE_LABELS: Record<AdaptivityEngine, string> = {
+  streak: "Streaks",
+  rating: "Rating",
+};
+const TIMING_LABELS: Record<TimingMode, string> = {
+  question: "Per question",
+  soft: "Soft",
+  session: "Whole session",
+  none: "Off",
+};
+const TIMING_HINTS: Record<TimingMode, string> = {
+  question: "Each question times out when its clock runs down.",
+  soft: "The clock turns red when time is up, but you can keep going.",
+  session: "One clock for the whole drill instead of one per question.",
+  none: "No clock at all. Response times are still recorded.",
+};
+const BAND_LABELS: Record<DifficultyBand, string> = {
+  any: "Any",
+  easy: "Easier",
+  medium: "Middle",
+  hard: "Harder",
+};
+const REGROUP_LABELS: Record<RegroupMode, string> = {
+  any: "Any",
+  none: "No regrouping",
+  one: "One regroup",
+  every: "Every column",
+  zero: "Borrow across zero",
+};
+const TABLE_OP_LABELS: Record<TableOps, string> = {
+  mul: "Multiplication",
+  div: "Division",
+  both: "Both",
+};
+const RUN_MODES: Mode[] = ["mix", ...SKILL_LIST];
+const REGROUP_SKILLS = ["add", "sub"] as const;
+const getModeLabel = (mode: Mode) =>
+  mode === "mix" ? "Random mix" : SKILL_LABELS[mode];
+
+const describeLevelSpec = (spec: LevelSpec) => {
+  const ranges = `${spec.minA ?? 0}-${spec.maxA} and ${spec.minB ?? 0}-${spec.maxB}`;
+  return spec.allowNegative ? `${ranges}, negatives` : ranges;
 };
 
-const removeMistakeEntry = (items: MistakeItem[], question: Question) =>
-  items.filter((item) => item.id !== makeMistakeId(question));
-
-const buildMistakeQuestion = (item: MistakeItem): Question => ({
-  id: `${item.id}-${Date.now()}-${Math.random().toString(16).slice(2)}`,
-  text: item.text,
-  answer: item.answer,
-  skill: item.skill,
-  level: item.level,
-});
-
-const parseOperands = (text: string) => {
-  const parts = text.split(" ");
-  if (parts.length !== 3) {
-    return null;
+const readCurveSource = (source: string) => {
+  try {
+    return parseLevelCurve(JSON.parse(source));
+  } catch {
+    return { curve: null, errors: ["The curve is not valid JSON."] };
   }
-  const left = Number(parts[0]);
-  const right = Number(parts[2]);
-  if (!Number.isFinite(left) || !Number.isFinite(right)) {
-    return null;
-  }
-  return { left, right };
 };
 
-const roundToBase = (value: number, base: number) =>
-  Math.round(value / base) * base;
-
-const formatAdjustment = (delta: number) =>
-  delta > 0 ? `add ${delta}` : `subtract ${Math.abs(delta)}`;
-
-const gcd = (a: number, b: number) => {
-  let x = Math.abs(a);
-  let y = Math.abs(b);
-  while (y !== 0) {
-    const next = x % y;
-    x = y;
-    y = next;
+const readPresetSource = (source: string, curve: LevelCurve) => {
+  try {
+    return parsePreset(JSON.parse(source), curve);
+  } catch {
+    return { preset: null, errors: ["The preset is not valid JSON."] };
   }
-  return x;
 };
 
-const getTipForQuestion = (question: Question) => {
-  const parsed = parseOperands(question.text);
-  if (!parsed) {
-    return "Break the problem into smaller chunks.";
-  }
-  const { left, right } = parsed;
-  if (question.skill === "add") {
-    if (left === right) {
-      return `Double ${left}.`;
-    }
-    if ((left % 10) + (right % 10) === 10) {
-      return "Ones make 10. Add tens and carry a ten.";
-    }
-    const big = Math.max(left, right);
-    const small = big === left ? right : left;
-    const shift = (10 - (big % 10)) % 10;
-    if (shift > 0 && shift <= 4 && small >= shift) {
-      return `Shift ${shift} from ${small} to ${big} to make ${
-        big + shift
-      }, then add ${small - shift}.`;
-    }
-    const round10 = roundToBase(small, 10);
-    const adjust10 = round10 - small;
-    if (Math.abs(adjust10) <= 2 && adjust10 !== 0) {
-      return `Round ${small} to ${round10}, then ${formatAdjustment(
-        -adjust10
-      )}.`;
-    }
-    const round100 = roundToBase(small, 100);
-    const adjust100 = round100 - small;
-    if (Math.abs(adjust100) <= 5 && adjust100 !== 0) {
-      return `Round ${small} to ${round100}, then ${formatAdjustment(
-        -adjust100
-      )}.`;
-    }
-    const tens = Math.floor(small / 10) * 10;
-    const ones = small - tens;
-    if (tens !== 0 && ones !== 0) {
-      return `Split ${small} into ${tens} + ${ones}. Add ${tens} then ${ones}.`;
-    }
-    return `Count up ${small} from ${big}.`;
-  }
-  if (question.skill === "sub") {
-    if (left === right) {
-      return "Same numbers cancel to zero.";
-    }
-    if (left < right) {
-      return `Find ${right} - ${left}, then make it negative.`;
-    }
-    const diff = left - right;
-    if (diff <= 10) {
-      return `Count up from ${right} to ${left} in small hops.`;
-    }
-    const rightOnes = right % 10;
-    if (rightOnes === 9) {
-      return `Subtract ${right + 1}, then add 1.`;
-    }
-    if (rightOnes === 8) {
-      return `Subtract ${right + 2}, then add 2.`;
-    }
-    if (rightOnes === 1) {
-      return `Subtract ${right - 1}, then subtract 1.`;
-    }
-    const round10 = roundToBase(right, 10);
-    const adjust10 = round10 - right;
-    if (Math.abs(adjust10) <= 2 && adjust10 !== 0) {
-      return `Subtract ${round10}, then ${formatAdjustment(adjust10)}.`;
-    }
-    const leftOnes = left % 10;
-    if (leftOnes !== 0 && right >= leftOnes) {
-      const remaining = right - leftOnes;
-      if (remaining === 0) {
-        return `Jump to a ten: subtract ${leftOnes} to reach a round ten.`;
-      }
-      return `Jump to a ten: subtract ${leftOnes}, then subtract ${remaining}.`;
-    }
-    if (left >= 100 && left % 100 === 0 && right < 100) {
-      const toHundred = 100 - right;
-      return `Use complements: ${left} - ${right} = (${left} - 100) + ${toHundred}.`;
-    }
-    const tens = Math.floor(right / 10) * 10;
-    const ones = right - tens;
-    if (tens !== 0 && ones !== 0) {
-      return `Subtract ${tens}, then subtract ${ones}.`;
-    }
-    return `Subtract ${right} in one step.`;
-  }
-  if (question.skill === "mul") {
-    if (left === 0 || right === 0) {
-      return "Anything times 0 is 0.";
-    }
-    if (left === 1 || right === 1) {
-      return "Anything times 1 stays the same.";
-    }
-    const big = Math.max(left, right);
-    const small = big === left ? right : left;
-    if (small === 2) {
-      return `Double ${big}.`;
-    }
-    if (small === 3) {
-      return `Double ${big}, then add ${big}.`;
-    }
-    if (small === 4) {
-      return `Double ${big} twice.`;
-    }
-    if (small === 5) {
-      return `Do ${big} x 10, then halve it.`;
-    }
-    if (small === 6) {
-      return `Do ${big} x 3, then double.`;
-    }
-    if (small === 7) {
-      return `Use 5x + 2x: ${big} x 7 = ${big} x 5 + ${big} x 2.`;
-    }
-    if (small === 8) {
-      return `Double ${big} three times.`;
-    }
-    if (small === 9) {
-      return `Do ${big} x 10, then subtract ${big}.`;
-    }
-    if (small === 11) {
-      return `Do ${big} x 10, then add ${big}.`;
-    }
-    if (small === 12) {
-      return `Do ${big} x 10 plus ${big} x 2.`;
-    }
-    if (small > 10 && small < 20) {
-      const extra = small - 10;
-      return `Use ${big} x 10 plus ${big} x ${extra}.`;
-    }
-    if (small === 15) {
-      return `Do ${big} x 10 plus ${big} x 5.`;
-    }
-    if (small === 25) {
-      return `Do ${big} x 100, then divide by 4.`;
-    }
-    if (small === 50) {
-      return `Do ${big} x 100, then halve it.`;
-    }
-    if (small === 100) {
-      return `Add two zeros to ${big}.`;
-    }
-    if (left % 2 === 0 && right % 10 === 5) {
-      return `Halve ${left} and double ${right} to make a round number.`;
-    }
-    if (right % 2 === 0 && left % 10 === 5) {
-      return `Halve ${right} and double ${left} to make a round number.`;
-    }
-    if (small % 10 === 9) {
-      return `Use near-10: ${big} x ${small} = ${big} x ${
-        small + 1
-      } - ${big}.`;
-    }
-    if (small % 10 === 1 && small > 1) {
-      return `Use near-10: ${big} x ${small} = ${big} x ${
-        small - 1
-      } + ${big}.`;
-    }
-    const tens = Math.floor(big / 10) * 10;
-    const ones = big - tens;
-    if (tens !== 0 && ones !== 0) {
-      return `Split ${big} into ${tens} + ${ones}: ${small} x ${tens} + ${small} x ${ones}.`;
-    }
-    return "Break one factor and multiply in parts.";
+const readSavedSession = () => {
+  const raw = localStorage.getItem(SESSION_KEY);
+  if (!raw) {
+    return null;
   }
-  if (question.skill === "div") {
-    if (right === 1) {
-      return "Divide by 1 stays the same.";
-    }
-    if (right === 2) {
-      return "Half it.";
-    }
-    if (right === 4) {
-      return "Half it twice.";
-    }
-    if (right === 5) {
-      return "Divide by 10, then double.";
-    }
-    if (right === 8) {
-      return "Half it three times.";
-    }
-    if (right === 10) {
-      return "Drop one zero if possible.";
-    }
-    if (right === 25) {
-      return "Divide by 100, then multiply by 4.";
-    }
-    if (right === 50) {
-      return "Divide by 100, then double.";
-    }
-    if (right === 100) {
-      return "Drop two zeros if possible.";
-    }
-    if (left % 100 === 0 && right % 100 === 0) {
-      return `Cancel two zeros: ${left / 100} / ${right / 100}.`;
-    }
-    if (left % 10 === 0 && right % 10 === 0) {
-      return `Cancel one zero: ${left / 10} / ${right / 10}.`;
-    }
-    const common = gcd(left, right);
-    if (common >= 2 && common !== right) {
-      return `Simplify first: divide both numbers by ${common}.`;
-    }
-    const factor = [3, 4, 5, 8, 6, 9, 12, 2].find(
-      (value) => right % value === 0 && value !== right
-    );
-    if (factor) {
-      return `Split the divisor: divide by ${factor}, then by ${right / factor}.`;
-    }
-    return `Use multiplication: ${right} x ? = ${left}.`;
+  try {
+    return normalizeSavedSession(JSON.parse(raw));
+  } catch {
+    return null;
   }
-  return "Break the problem into smaller chunks.";
 };
 
-const createQuestion = (
-  selectedMode: Mode,
-  snapshot: Stats,
-  negativeLevel: number
-) => {
-  const skill = selectedMode === "mix" ? pickSkill(snapshot) : selectedMode;
-  const level = snapshot[skill].level;
-  const allowNegative =
-    skill === "sub" && negativeLevel > 0 && level >= negativeLevel;
-  return generateQuestion(skill, level, { allowNegative });
+// While paused the clock stands still at the moment the pause began.
+const getSecondsLeft = (endsAt: number, pausedAt: number | null) =>
+  Math.max(0, Math.ceil((endsAt - (pausedAt ?? Date.now())) / 1000));
+
+const describePresetLevels = (entry: PresetSkill) =>
+  entry.minLevel === undefined || entry.maxLevel === undefined
+    ? "Adaptive"
+    : entry.minLevel === entry.maxLevel
+      ? `Level ${entry.minLevel}`
+      : `Levels ${entry.minLevel}-${entry.maxLevel}`;
+
+const describePreset = (preset: PresetDraft) => {
+  const skills =
+    preset.skills.length === 1
+      ? SKILL_LABELS[preset.skills[0].skill]
+      : `${preset.skills.length} skills`;
+  return `${skills} · ${preset.questionCount} questions`;
 };
 
 function AdsterraNativeBanner() {
@@ -462,8 +320,21 @@ export default function Home() {
   const [screen, setScreen] = useState<Screen>("menu");
   const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
   const [mistakes, setMistakes] = useState<MistakeItem[]>([]);
+  const [facts, setFacts] = useState<FactStore>({});
   const [sessionKind, setSessionKind] = useState<SessionKind>("standard");
+  const [activeTableDrill, setActiveTableDrill] = useState<TableDrill | null>(
+    null
+  );
   const [mistakeQueue, setMistakeQueue] = useState<MistakeItem[]>([]);
+  const [placement, setPlacement] = useState<PlacementState | null>(null);
+  const [placedAt, setPlacedAt] = useState<number | null>(null);
+  const [sprintBests, setSprintBests] = useState<SprintBests>({});
+  const [sprintSeconds, setSprintSeconds] = useState<number | null>(null);
+  const [sprintLeft, setSprintLeft] = useState(0);
+  const [sprintResult, setSprintResult] = useState<{
+    isBest: boolean;
+    previous: SprintBest | null;
+  } | null>(null);
   const [question, setQuestion] = useState<Question | null>(null);
   const [answer, setAnswer] = useState("");
   const [showTip, setShowTip] = useState(false);
@@ -471,29 +342,87 @@ export default function Home() {
   const [error, setError] = useState<string | null>(null);
   const [ready, setReady] = useState(false);
   const [session, setSession] = useState({ correct: 0, wrong: 0 });
+  const [sessionSeed, setSessionSeed] = useState<number | null>(null);
   const [questionIndex, setQuestionIndex] = useState(1);
   const [timeLeft, setTimeLeft] = useState(DEFAULT_SETTINGS.timeLimitSeconds);
   const [answered, setAnswered] = useState(false);
   const [theme, setTheme] = useState<"light" | "dark">("light");
   const [themeReady, setThemeReady] = useState(false);
   const [useKeypad, setUseKeypad] = useState(false);
+  const [curve, setCurve] = useState<LevelCurve>(DEFAULT_CURVE);
+  const [curveDraft, setCurveDraft] = useState("");
+  const [curvePreview, setCurvePreview] = useState<ReturnType<
+    typeof parseLevelCurve
+  > | null>(null);
   const startTimeRef = useRef<number>(0);
   const inputRef = useRef<HTMLInputElement>(null);
   const advanceTimerRef = useRef<number | null>(null);
   const statsRef = useRef(stats);
   const modeRef = useRef(mode);
+  const rngRef = useRef<TrackedRng>(createTrackedRng(0));
+  const factsRef = useRef<FactHistory>(createFactHistory());
+  const [survival, setSurvival] = useState<SurvivalRun | null>(null);
+  const [survivalBests, setSurvivalBests] = useState<SurvivalBests>({});
+  const [survivalResult, setSurvivalResult] = useState<{
+    isBest: boolean;
+    previous: SurvivalBest | null;
+  } | null>(null);
+  const sprintEndsAtRef = useRef(0);
+  const [budgetLeft, setBudgetLeft] = useState(DEFAULT_SETTINGS.sessionSeconds);
+  const budgetEndsAtRef = useRef(0);
+  const [presets, setPresets] = useState<DrillPreset[]>([]);
+  const [activePreset, setActivePreset] = useState<DrillPreset | null>(null);
+  const [presetDraft, setPresetDraft] = useState<PresetDraft>(() =>
+    createPresetDraft(DEFAULT_SETTINGS)
+  );
+  const [editingPresetId, setEditingPresetId] = useState<string | null>(null);
+  const [presetSource, setPresetSource] = useState("");
+  const [presetErrors, setPresetErrors] = useState<string[]>([]);
+  const [savedSession, setSavedSession] = useState<SavedSession | null>(null);
+  const [paused, setPaused] = useState(false);
+  const pausedAtRef = useRef<number | null>(null);
+  // A preset brings its own count, timer and negatives for the session.
+  const drillSettings = useMemo(
+    () =>
+      activePreset ? applyPresetSettings(settings, activePreset) : settings,
+    [activePreset, settings]
+  );
+  // A session budget needs a set number of questions, so placement and
+  // survival keep the clock per question in that mode.
+  const drillTiming: TimingMode =
+    settings.timing === "session" &&
+    (sessionKind === "placement" || sessionKind === "survival")
+      ? "question"
+      : settings.timing;
 
   useEffect(() => {
+    let loadedCurve = DEFAULT_CURVE;
+    const savedCurve = localStorage.getItem(CURVE_KEY);
+    if (savedCurve) {
+      const parsed = readCurveSource(savedCurve);
+      if (parsed.curve) {
+        loadedCurve = parsed.curve;
+        setCurve(parsed.curve);
+        setCurveDraft(savedCurve);
+      }
+    }
     const raw = localStorage.getItem(STORAGE_KEY);
     if (raw) {
       try {
-        const saved = JSON.parse(raw) as { stats?: Stats; mode?: Mode };
+        const saved = JSON.parse(raw) as {
+          stats?: unknown;
+          mode?: Mode;
+          placedAt?: unknown;
+        };
         if (saved.stats) {
-          setStats(saved.stats);
+          setStats(normalizeStats(saved.stats, loadedCurve));
         }
         if (saved.mode) {
           setMode(saved.mode);
         }
+        if (typeof saved.placedAt === "number") {
+          setPlacedAt(saved.placedAt);
+        }
       } catch {
         // Ignore malformed saved state.
       }
@@ -502,14 +431,9 @@ export default function Home() {
     if (savedSettings) {
       try {
         const parsed = JSON.parse(savedSettings) as Partial<Settings>;
-        setSettings((prev) => {
-          const nextNegative = parsed.negativeLevel ?? prev.negativeLevel;
-          return {
-            questionCount: parsed.questionCount ?? prev.questionCount,
-            timeLimitSeconds: parsed.timeLimitSeconds ?? prev.timeLimitSeconds,
-            negativeLevel: Math.min(Math.max(nextNegative, 0), MAX_LEVEL),
-          };
-        });
+        setSettings((prev) =>
+          normalizeSettings(parsed, loadedCurve.maxLevel, prev)
+        );
         if (typeof parsed.timeLimitSeconds === "number") {
           setTimeLeft(parsed.timeLimitSeconds);
         }
@@ -526,6 +450,39 @@ export default function Home() {
         // Ignore malformed mistakes.
       }
     }
+    const savedSprints = localStorage.getItem(SPRINTS_KEY);
+    if (savedSprints) {
+      try {
+        setSprintBests(normalizeSprintBests(JSON.parse(savedSprints)));
+      } catch {
+        // Ignore malformed sprint bests.
+      }
+    }
+    const savedSurvival = localStorage.getItem(SURVIVAL_KEY);
+    if (savedSurvival) {
+      try {
+        setSurvivalBests(normalizeSurvivalBests(JSON.parse(savedSurvival)));
+      } catch {
+        // Ignore malformed survival bests.
+      }
+    }
+    const savedPresets = localStorage.getItem(PRESETS_KEY);
+    if (savedPresets) {
+      try {
+        setPresets(normalizePresets(JSON.parse(savedPresets)));
+      } catch {
+        // Ignore malformed presets.
+      }
+    }
+    setSavedSession(readSavedSession());
+    const savedFacts = localStorage.getItem(FACTS_KEY);
+    if (savedFacts) {
+      try {
+        setFacts(normalizeFactStore(JSON.parse(savedFacts)));
+      } catch {
+        // Ignore malformed facts.
+      }
+    }
     setReady(true);
   }, []);
 
@@ -568,9 +525,10 @@ export default function Home() {
       JSON.stringify({
         stats,
         mode,
+        placedAt,
       })
     );
-  }, [ready, stats, mode]);
+  }, [ready, stats, mode, placedAt]);
 
   useEffect(() => {
     if (!ready) {
@@ -586,6 +544,126 @@ export default function Home() {
     localStorage.setItem(MISTAKES_KEY, JSON.stringify(mistakes));
   }, [mistakes, ready]);
 
+  useEffect(() => {
+    if (!ready) {
+      return;
+    }
+    localStorage.setItem(FACTS_KEY, JSON.stringify(facts));
+  }, [facts, ready]);
+
+  useEffect(() => {
+    if (!ready) {
+      return;
+    }
+    localStorage.setItem(SPRINTS_KEY, JSON.stringify(sprintBests));
+  }, [ready, sprintBests]);
+
+  useEffect(() => {
+    if (!ready) {
+      return;
+    }
+    localStorage.setItem(SURVIVAL_KEY, JSON.stringify(survivalBests));
+  }, [ready, survivalBests]);
+
+  useEffect(() => {
+    if (!ready) {
+      return;
+    }
+    localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+  }, [presets, ready]);
+
+  // Kept up to date on every step so a reload lands back on the same
+  // question. Sprints run against the wall clock, so they are not kept.
+  useEffect(() => {
+    if (screen !== "drill" || !question) {
+      return;
+    }
+    if (sessionKind === "sprint") {
+      localStorage.removeItem(SESSION_KEY);
+      return;
+    }
+    const snapshot: SavedSession = {
+      kind: sessionKind,
+      mode,
+      sessionSeed,
+      rngSeed: rngRef.current.seed,
+      draws: rngRef.current.draws,
+      history: factsRef.current,
+      tableDrill: activeTableDrill,
+      preset: activePreset,
+      mistakeQueue,
+      placement,
+      survival,
+      session,
+      questionIndex,
+      question,
+      feedback,
+      budgetLeft:
+        drillTiming === "session"
+          ? getSecondsLeft(budgetEndsAtRef.current, pausedAtRef.current)
+          : null,
+    };
+    localStorage.setItem(SESSION_KEY, JSON.stringify(snapshot));
+  }, [
+    activePreset,
+    activeTableDrill,
+    drillTiming,
+    feedback,
+    mistakeQueue,
+    mode,
+    placement,
+    question,
+    questionIndex,
+    screen,
+    session,
+    sessionKind,
+    sessionSeed,
+    survival,
+  ]);
+
+  // The snapshot above only changes between steps, so the session clock is
+  // brought up to date whenever the page is hidden or left.
+  useEffect(() => {
+    if (
+      screen !== "drill" ||
+      sessionKind === "sprint" ||
+      drillTiming !== "session"
+    ) {
+      return;
+    }
+    const saveBudget = () => {
+      const saved = readSavedSession();
+      if (!saved) {
+        return;
+      }
+      const budgetLeft = getSecondsLeft(
+        budgetEndsAtRef.current,
+        pausedAtRef.current
+      );
+      localStorage.setItem(
+        SESSION_KEY,
+        JSON.stringify({ ...saved, budgetLeft })
+      );
+    };
+    const handleVisibility = () => {
+      if (document.visibilityState === "hidden") {
+        saveBudget();
+      }
+    };
+    window.addEventListener("pagehide", saveBudget);
+    document.addEventListener("visibilitychange", handleVisibility);
+    return () => {
+      window.removeEventListener("pagehide", saveBudget);
+      document.removeEventListener("visibilitychange", handleVisibility);
+    };
+  }, [drillTiming, screen, sessionKind]);
+
+  useEffect(() => {
+    if (screen === "summary") {
+      localStorage.removeItem(SESSION_KEY);
+    }
+  }, [screen]);
+
   useEffect(() => {
     statsRef.current = stats;
   }, [stats]);
@@ -595,11 +673,11 @@ export default function Home() {
   }, [mode]);
 
   useEffect(() => {
-    if (screen !== "drill" || useKeypad || answered) {
+    if (screen !== "drill" || useKeypad || answered || paused) {
       return;
     }
     inputRef.current?.focus();
-  }, [answered, question?.id, screen, useKeypad]);
+  }, [answered, paused, question?.id, screen, useKeypad]);
 
   useEffect(() => {
     return () => {
@@ -616,38 +694,95 @@ export default function Home() {
     }
   }, []);
 
+  // A new session passes its own time limit, as drillSettings has not yet
+  // caught up with the session's preset.
   const beginQuestion = useCallback(
-    (nextQuestion: Question) => {
+    (nextQuestion: Question, timeLimitSeconds?: number) => {
       setQuestion(nextQuestion);
       setAnswer("");
       setError(null);
       setFeedback(null);
       setAnswered(false);
       setShowTip(false);
+      setPaused(false);
+      pausedAtRef.current = null;
       startTimeRef.current = Date.now();
-      setTimeLeft(settings.timeLimitSeconds);
+      setTimeLeft(timeLimitSeconds ?? drillSettings.timeLimitSeconds);
     },
-    [settings.timeLimitSeconds]
+    [drillSettings.timeLimitSeconds]
   );
 
   const startSession = useCallback(
-    (nextMode: Mode) => {
+    (nextMode: Mode, replaySeed?: number, options: SessionOptions = {}) => {
+      const tableDrill = options.tableDrill ?? null;
+      const preset = options.preset ?? null;
       clearAdvanceTimer();
-      setSessionKind("standard");
+      const seed =
+        replaySeed ?? parseSeed(settings.seedCode) ?? createSeed();
+      rngRef.current = createTrackedRng(seed);
+      factsRef.current = createFactHistory(settings.repeatGap);
+      setSessionSeed(seed);
+      setSessionKind(
+        options.kind ??
+          (preset ? "preset" : tableDrill ? "tables" : "standard")
+      );
+      setActiveTableDrill(tableDrill);
+      setActivePreset(preset);
       setMistakeQueue([]);
+      setPlacement(null);
+      setSprintSeconds(null);
+      setSurvival(null);
       setMode(nextMode);
       modeRef.current = nextMode;
       setSession({ correct: 0, wrong: 0 });
       setQuestionIndex(1);
       setScreen("drill");
-      const nextQuestion = createQuestion(
-        nextMode,
-        statsRef.current,
-        settings.negativeLevel
+      budgetEndsAtRef.current = Date.now() + settings.sessionSeconds * 1000;
+      setBudgetLeft(settings.sessionSeconds);
+      const context = {
+        rng: rngRef.current.next,
+        history: factsRef.current,
+        curve,
+        facts,
+        tableDrill,
+        level: options.level,
+      };
+      const next = preset
+        ? createPresetQuestion(preset, statsRef.current, settings, context)
+        : createQuestion(nextMode, statsRef.current, settings, context);
+      factsRef.current = next.history;
+      beginQuestion(
+        next.question,
+        preset
+          ? applyPresetSettings(settings, preset).timeLimitSeconds
+          : settings.timeLimitSeconds
       );
-      beginQuestion(nextQuestion);
     },
-    [beginQuestion, clearAdvanceTimer, settings.negativeLevel]
+    [beginQuestion, clearAdvanceTimer, curve, facts, settings]
+  );
+
+  const startSprint = useCallback(
+    (nextMode: Mode, replaySeed?: number) => {
+      startSession(nextMode, replaySeed, { kind: "sprint" });
+      setSprintSeconds(settings.sprintSeconds);
+      setSprintLeft(settings.sprintSeconds);
+      setSprintResult(null);
+      sprintEndsAtRef.current = Date.now() + settings.sprintSeconds * 1000;
+    },
+    [settings.sprintSeconds, startSession]
+  );
+
+  const startSurvival = useCallback(
+    (nextMode: Mode, replaySeed?: number) => {
+      const run = createSurvivalRun();
+      startSession(nextMode, replaySeed, {
+        kind: "survival",
+        level: run.level,
+      });
+      setSurvival(run);
+      setSurvivalResult(null);
+    },
+    [startSession]
   );
 
   const startMistakeSession = useCallback(() => {
@@ -655,29 +790,67 @@ export default function Home() {
       return;
     }
     clearAdvanceTimer();
-    const ordered = [...mistakes].sort((a, b) => {
-      if (b.misses !== a.misses) {
-        return b.misses - a.misses;
-      }
-      return b.lastMissedAt - a.lastMissedAt;
-    });
-    const queue = ordered.slice(0, settings.questionCount);
+    const queue = buildMistakeQueue(mistakes, settings.questionCount);
     if (queue.length === 0) {
       return;
     }
+    setSessionSeed(null);
     setSessionKind("mistakes");
+    setActivePreset(null);
     setMistakeQueue(queue);
     setSession({ correct: 0, wrong: 0 });
     setQuestionIndex(1);
     setScreen("drill");
+    budgetEndsAtRef.current = Date.now() + settings.sessionSeconds * 1000;
+    setBudgetLeft(settings.sessionSeconds);
     const nextQuestion = buildMistakeQuestion(queue[0]);
-    beginQuestion(nextQuestion);
-  }, [beginQuestion, clearAdvanceTimer, mistakes, settings.questionCount]);
+    beginQuestion(nextQuestion, settings.timeLimitSeconds);
+  }, [
+    beginQuestion,
+    clearAdvanceTimer,
+    mistakes,
+    settings.questionCount,
+    settings.sessionSeconds,
+    settings.timeLimitSeconds,
+  ]);
+
+  const startPlacement = useCallback(() => {
+    clearAdvanceTimer();
+    const seed = createSeed();
+    rngRef.current = createTrackedRng(seed);
+    const nextPlacement = createPlacement(curve);
+    const nextQuestion = getPlacementQuestion(
+      nextPlacement,
+      curve,
+      rngRef.current.next
+    );
+    if (!nextQuestion) {
+      return;
+    }
+    setSessionSeed(null);
+    setSessionKind("placement");
+    setPlacement(nextPlacement);
+    setActiveTableDrill(null);
+    setActivePreset(null);
+    setMistakeQueue([]);
+    setSession({ correct: 0, wrong: 0 });
+    setQuestionIndex(1);
+    setScreen("drill");
+    beginQuestion(nextQuestion, settings.timeLimitSeconds);
+  }, [beginQuestion, clearAdvanceTimer, curve, settings.timeLimitSeconds]);
 
   const goToMenu = useCallback(() => {
     clearAdvanceTimer();
     setSessionKind("standard");
+    setActiveTableDrill(null);
+    setActivePreset(null);
     setMistakeQueue([]);
+    setPlacement(null);
+    setSprintSeconds(null);
+    setSurvival(null);
+    setPaused(false);
+    pausedAtRef.current = null;
+    setSavedSession(readSavedSession());
     setScreen("menu");
     setQuestion(null);
     setFeedback(null);
@@ -725,17 +898,9 @@ export default function Home() {
       if (!question) {
         return;
       }
-      const nextStats = updateStats(
-        statsRef.current,
-        question.skill,
-        correct,
-        elapsed
-      );
-      statsRef.current = nextStats;
-      setStats(nextStats);
       setFeedback({
         correct,
-        expected: question.answer,
+        expected: formatAnswer(question),
         ms: elapsed,
         skill: question.skill,
         level: question.level,
@@ -745,16 +910,72 @@ export default function Home() {
         correct: prev.correct + (correct ? 1 : 0),
         wrong: prev.wrong + (correct ? 0 : 1),
       }));
+      setError(null);
+      setAnswered(true);
+      // Placement answers only move the search; stats, facts and mistakes
+      // are left alone until the levels are written at the end.
+      if (sessionKind === "placement") {
+        const passed = isPlacementPass(
+          correct,
+          elapsed,
+          question.level,
+          settings.ageGroup
+        );
+        setPlacement((prev) =>
+          prev
+            ? recordPlacementAnswer(prev, question.skill, question.level, passed)
+            : prev
+        );
+        return;
+      }
+      if (sessionKind === "survival") {
+        setSurvival((prev) =>
+          prev
+            ? recordSurvivalAnswer(
+                prev,
+                correct,
+                getSurvivalMaxLevel(curve, modeRef.current)
+              )
+            : prev
+        );
+      }
+      // Survival levels are forced, so its answers only feed the adaptive
+      // stats when the learner asks for that.
+      if (sessionKind !== "survival" || settings.survivalStats) {
+        const nextStats = updateStats(
+          statsRef.current,
+          question.skill,
+          correct,
+          elapsed,
+          {
+            curve,
+            ageGroup: settings.ageGroup,
+            engine: settings.engine,
+            timing: drillTiming,
+            level: question.level,
+            difficulty: question.difficulty,
+          }
+        );
+        statsRef.current = nextStats;
+        setStats(nextStats);
+        setFacts((prev) => updateFactStore(prev, question, correct, elapsed));
+      }
       if (!correct) {
         setMistakes((prev) => addMistakeEntry(prev, question));
         setShowTip(true);
       } else if (sessionKind === "mistakes") {
         setMistakes((prev) => removeMistakeEntry(prev, question));
       }
-      setError(null);
-      setAnswered(true);
     },
-    [question, sessionKind]
+    [
+      curve,
+      drillTiming,
+      question,
+      sessionKind,
+      settings.ageGroup,
+      settings.engine,
+      settings.survivalStats,
+    ]
   );
 
   const handleSubmit = useCallback(() => {
@@ -771,18 +992,35 @@ export default function Home() {
       return;
     }
 
-    const numeric = Number(cleaned);
-    if (!Number.isFinite(numeric)) {
-      setError("Numbers only for now.");
+    const correct = checkAnswer(question, cleaned, {
+      acceptUnsimplified: settings.acceptUnsimplified,
+    });
+    if (correct === null) {
+      setError(
+        question.format === "integer"
+          ? "Numbers only for now."
+          : question.format === "decimal"
+            ? "Use a decimal like 0.75."
+            : question.format === "remainder"
+              ? "Use quotient r remainder, like 7 r 3."
+              : "Use a fraction like 3/4 or 1 1/2."
+      );
       return;
     }
 
     const elapsed = Date.now() - startTimeRef.current;
-    const correct = numeric === question.answer;
 
     clearAdvanceTimer();
     applyResult(correct, elapsed);
-  }, [answered, answer, applyResult, clearAdvanceTimer, question, useKeypad]);
+  }, [
+    answered,
+    answer,
+    applyResult,
+    clearAdvanceTimer,
+    question,
+    settings.acceptUnsimplified,
+    useKeypad,
+  ]);
 
   const handleKeypadPress = useCallback(
     (key: string, allowNegativeAnswer: boolean) => {
@@ -816,14 +1054,15 @@ export default function Home() {
         });
         return;
       }
+      const value = key === SPACE_KEY ? " " : key === "R" ? " r " : key;
       setAnswer((prev) => {
-        if (prev === "0") {
-          return key;
+        if (prev === "0" && /\d/.test(value)) {
+          return value;
         }
-        if (prev === "-0") {
-          return `-${key}`;
+        if (prev === "-0" && /\d/.test(value)) {
+          return `-${value}`;
         }
-        return prev + key;
+        return prev + value;
       });
     },
     [answered]
@@ -834,10 +1073,49 @@ export default function Home() {
       return;
     }
     clearAdvanceTimer();
+    if (sessionKind === "placement") {
+      const nextQuestion = placement
+        ? getPlacementQuestion(placement, curve, rngRef.current.next)
+        : null;
+      if (nextQuestion) {
+        setQuestionIndex(questionIndex + 1);
+        beginQuestion(nextQuestion);
+        return;
+      }
+      if (placement) {
+        const placed = applyPlacement(
+          statsRef.current,
+          getPlacementLevels(placement)
+        );
+        statsRef.current = placed;
+        setStats(placed);
+        setPlacedAt(Date.now());
+      }
+      setScreen("summary");
+      setQuestion(null);
+      setAnswered(false);
+      showPopUnder();
+      return;
+    }
+    if (sessionKind === "survival" && (!survival || isSurvivalOver(survival))) {
+      if (survival) {
+        const result = updateSurvivalBests(survivalBests, mode, survival);
+        setSurvivalBests(result.bests);
+        setSurvivalResult({ isBest: result.isBest, previous: result.previous });
+      }
+      setScreen("summary");
+      setQuestion(null);
+      setAnswered(false);
+      showPopUnder();
+      return;
+    }
     const totalQuestions =
-      sessionKind === "mistakes" ? mistakeQueue.length : settings.questionCount;
+      sessionKind === "mistakes"
+        ? mistakeQueue.length
+        : drillSettings.questionCount;
     const nextIndex = questionIndex + 1;
-    if (nextIndex > totalQuestions) {
+    const isOpenEnded = sessionKind === "sprint" || sessionKind === "survival";
+    if (!isOpenEnded && nextIndex > totalQuestions) {
       setScreen("summary");
       setQuestion(null);
       setAnswered(false);
@@ -857,22 +1135,37 @@ export default function Home() {
       beginQuestion(buildMistakeQuestion(nextItem));
       return;
     }
-    const nextQuestion = createQuestion(
-      modeRef.current,
-      statsRef.current,
-      settings.negativeLevel
-    );
-    beginQuestion(nextQuestion);
+    const context = {
+      rng: rngRef.current.next,
+      history: factsRef.current,
+      curve,
+      facts,
+      tableDrill: activeTableDrill,
+      level: sessionKind === "survival" ? survival?.level : undefined,
+    };
+    const next = activePreset
+      ? createPresetQuestion(activePreset, statsRef.current, settings, context)
+      : createQuestion(modeRef.current, statsRef.current, settings, context);
+    factsRef.current = next.history;
+    beginQuestion(next.question);
   }, [
+    activePreset,
+    activeTableDrill,
     answered,
     beginQuestion,
     clearAdvanceTimer,
+    curve,
+    drillSettings.questionCount,
+    facts,
+    mode,
     question,
     questionIndex,
     mistakeQueue,
+    placement,
     sessionKind,
-    settings.negativeLevel,
-    settings.questionCount,
+    settings,
+    survival,
+    survivalBests,
   ]);
 
   const handleTimeout = useCallback(() => {
@@ -883,21 +1176,352 @@ export default function Home() {
     applyResult(false, elapsed, true);
   }, [answered, applyResult, question]);
 
+  // As with sprints, a question left on screen when the budget runs out is
+  // not counted.
+  const finishBudget = useCallback(() => {
+    clearAdvanceTimer();
+    setScreen("summary");
+    setQuestion(null);
+    setAnswered(false);
+    showPopUnder();
+  }, [clearAdvanceTimer]);
+
+  // The question on screen when the clock runs out is dropped unanswered.
+  const finishSprint = useCallback(() => {
+    if (sprintSeconds === null) {
+      return;
+    }
+    clearAdvanceTimer();
+    const result = updateSprintBests(
+      sprintBests,
+      mode,
+      sprintSeconds,
+      session.correct
+    );
+    setSprintBests(result.bests);
+    setSprintResult({ isBest: result.isBest, previous: result.previous });
+    setScreen("summary");
+    setQuestion(null);
+    setAnswered(false);
+    showPopUnder();
+  }, [clearAdvanceTimer, mode, session.correct, sprintBests, sprintSeconds]);
+
   const handlePracticeAgain = useCallback(() => {
     if (sessionKind === "mistakes") {
       startMistakeSession();
       return;
     }
-    startSession(mode);
-  }, [mode, sessionKind, startMistakeSession, startSession]);
-
-  const resetStats = useCallback(() => {
-    const fresh = createDefaultStats();
-    statsRef.current = fresh;
-    setStats(fresh);
-  }, []);
+    if (sessionKind === "sprint") {
+      startSprint(mode);
+      return;
+    }
+    if (sessionKind === "survival") {
+      startSurvival(mode);
+      return;
+    }
+    startSession(mode, undefined, {
+      tableDrill: activeTableDrill,
+      preset: activePreset,
+    });
+  }, [
+    activePreset,
+    activeTableDrill,
+    mode,
+    sessionKind,
+    startMistakeSession,
+    startSession,
+    startSprint,
+    startSurvival,
+  ]);
 
-  const toggleTheme = () => {
+  const toggleTable = (table: number) => {
+    setSettings((prev) => {
+      const selected = prev.tableDrill.tables.includes(table)
+        ? prev.tableDrill.tables.filter((item) => item !== table)
+        : [...prev.tableDrill.tables, table].sort((a, b) => a - b);
+      return { ...prev, tableDrill: { ...prev.tableDrill, tables: selected } };
+    });
+  };
+
+  const adjustTableFactor = (
+    field: "minFactor" | "maxFactor",
+    delta: number
+  ) => {
+    setSettings((prev) => {
+      const drill = prev.tableDrill;
+      const next =
+        field === "minFactor"
+          ? Math.min(Math.max(drill.minFactor + delta, 0), drill.maxFactor)
+          : Math.min(
+              Math.max(drill.maxFactor + delta, drill.minFactor),
+              MAX_TABLE_FACTOR
+            );
+      return { ...prev, tableDrill: { ...drill, [field]: next } };
+    });
+  };
+
+  const cycleTableOps = () => {
+    setSettings((prev) => {
+      const index = TABLE_OPS.indexOf(prev.tableDrill.ops);
+      return {
+        ...prev,
+        tableDrill: {
+          ...prev.tableDrill,
+          ops: TABLE_OPS[(index + 1) % TABLE_OPS.length],
+        },
+      };
+    });
+  };
+
+  const startTableDrill = (drill: TableDrill) => {
+    startSession(drill.ops === "div" ? "div" : "mul", undefined, {
+      tableDrill: drill,
+    });
+  };
+
+  const openBuilder = (preset?: DrillPreset) => {
+    setPresetDraft(preset ?? createPresetDraft(settings));
+    setEditingPresetId(preset?.id ?? null);
+    setPresetSource("");
+    setPresetErrors([]);
+    setScreen("builder");
+  };
+
+  const updatePresetSkill = (
+    skill: SkillKey,
+    update: (entry: PresetSkill) => PresetSkill
+  ) => {
+    setPresetDraft((prev) => ({
+      ...prev,
+      skills: prev.skills.map((entry) =>
+        entry.skill === skill ? update(entry) : entry
+      ),
+    }));
+  };
+
+  const togglePresetSkill = (skill: SkillKey) => {
+    setPresetDraft((prev) => {
+      const included = prev.skills.some((entry) => entry.skill === skill);
+      const skills = included
+        ? prev.skills.filter((entry) => entry.skill !== skill)
+        : SKILL_LIST.flatMap((key) => {
+            if (key === skill) {
+              return [{ skill, weight: 1 }];
+            }
+            return prev.skills.filter((entry) => entry.skill === key);
+          });
+      return { ...prev, skills };
+    });
+  };
+
+  const adjustPresetWeight = (skill: SkillKey, delta: number) => {
+    updatePresetSkill(skill, (entry) => ({
+      ...entry,
+      weight: Math.min(Math.max(entry.weight + delta, 1), MAX_PRESET_WEIGHT),
+    }));
+  };
+
+  // Adaptive, then a fixed level, then a range, both starting at the
+  // learner's current level.
+  const cyclePresetLevels = (skill: SkillKey) => {
+    const top = curve.levels[skill].length;
+    const current = Math.min(stats[skill].level, top);
+    updatePresetSkill(skill, (entry) => {
+      if (entry.minLevel === undefined || entry.maxLevel === undefined) {
+        return { ...entry, minLevel: current, maxLevel: current };
+      }
+      if (entry.minLevel === entry.maxLevel && top > 1) {
+        const minLevel = Math.min(entry.minLevel, top - 1);
+        return { ...entry, minLevel, maxLevel: minLevel + 1 };
+      }
+      return { skill: entry.skill, weight: entry.weight };
+    });
+  };
+
+  const adjustPresetLevel = (
+    skill: SkillKey,
+    field: "minLevel" | "maxLevel" | "level",
+    delta: number
+  ) => {
+    const top = curve.levels[skill].length;
+    updatePresetSkill(skill, (entry) => {
+      const low = entry.minLevel ?? 1;
+      const high = entry.maxLevel ?? low;
+      if (field === "level") {
+        const level = Math.min(Math.max(low + delta, 1), top);
+        return { ...entry, minLevel: level, maxLevel: level };
+      }
+      return field === "minLevel"
+        ? { ...entry, minLevel: Math.min(Math.max(low + delta, 1), high - 1) }
+        : {
+            ...entry,
+            maxLevel: Math.min(Math.max(high + delta, low + 1), top),
+          };
+    });
+  };
+
+  const adjustPresetDraft = (
+    field: "questionCount" | "timeLimitSeconds" | "negativeLevel",
+    delta: number
+  ) => {
+    const range =
+      field === "questionCount"
+        ? PRESET_QUESTION_RANGE
+        : field === "timeLimitSeconds"
+          ? PRESET_TIME_RANGE
+          : { min: 0, max: curve.maxLevel };
+    setPresetDraft((prev) => ({
+      ...prev,
+      [field]: Math.min(Math.max(prev[field] + delta, range.min), range.max),
+    }));
+  };
+
+  const savePreset = () => {
+    const parsed = parsePreset(presetDraft, curve);
+    if (!parsed.preset) {
+      setPresetErrors(parsed.errors);
+      return;
+    }
+    const saved: DrillPreset = {
+      id: editingPresetId ?? createPresetId(),
+      ...parsed.preset,
+    };
+    setPresets((prev) =>
+      editingPresetId
+        ? prev.map((item) => (item.id === editingPresetId ? saved : item))
+        : [...prev, saved]
+    );
+    goToMenu();
+  };
+
+  const deletePreset = (id: string) => {
+    setPresets((prev) => prev.filter((item) => item.id !== id));
+    if (editingPresetId === id) {
+      setEditingPresetId(null);
+    }
+  };
+
+  const showPresetExport = (preset: PresetDraft) => {
+    const source = exportPreset(preset);
+    setPresetSource(source);
+    setPresetErrors([]);
+    navigator.clipboard?.writeText(source).catch(() => {
+      // The JSON stays in the box to copy by hand.
+    });
+  };
+
+  const importPreset = () => {
+    const parsed = readPresetSource(presetSource, curve);
+    setPresetErrors(parsed.errors);
+    if (parsed.preset) {
+      setPresetDraft(parsed.preset);
+      setEditingPresetId(null);
+    }
+  };
+
+  const resumeSavedSession = (saved: SavedSession) => {
+    clearAdvanceTimer();
+    rngRef.current = createTrackedRng(saved.rngSeed, saved.draws);
+    factsRef.current = saved.history;
+    setSessionSeed(saved.sessionSeed);
+    setSessionKind(saved.kind);
+    setActiveTableDrill(saved.tableDrill);
+    setActivePreset(saved.preset);
+    setMistakeQueue(saved.mistakeQueue);
+    setPlacement(saved.placement);
+    setSurvival(saved.survival);
+    setSurvivalResult(null);
+    setSprintSeconds(null);
+    setMode(saved.mode);
+    modeRef.current = saved.mode;
+    setSession(saved.session);
+    setQuestionIndex(saved.questionIndex);
+    setScreen("drill");
+    const budget = saved.budgetLeft ?? settings.sessionSeconds;
+    budgetEndsAtRef.current = Date.now() + budget * 1000;
+    setBudgetLeft(budget);
+    beginQuestion(saved.question);
+    // An answer given before the reload has already been counted.
+    if (saved.feedback) {
+      setFeedback(saved.feedback);
+      setAnswered(true);
+    }
+  };
+
+  const discardSavedSession = () => {
+    localStorage.removeItem(SESSION_KEY);
+    setSavedSession(null);
+  };
+
+  const pauseDrill = () => {
+    pausedAtRef.current = Date.now();
+    setPaused(true);
+  };
+
+  // Time spent paused is left out of the response time.
+  const resumeDrill = () => {
+    if (pausedAtRef.current !== null) {
+      const pausedMs = Date.now() - pausedAtRef.current;
+      startTimeRef.current += pausedMs;
+      budgetEndsAtRef.current += pausedMs;
+    }
+    pausedAtRef.current = null;
+    setPaused(false);
+  };
+
+  const resetStats = useCallback(() => {
+    const fresh = createDefaultStats();
+    statsRef.current = fresh;
+    setStats(fresh);
+    setFacts({});
+    setPlacedAt(null);
+    setSprintBests({});
+    setSurvivalBests({});
+  }, []);
+
+  const previewCurve = () => {
+    setCurvePreview(readCurveSource(curveDraft));
+  };
+
+  const loadCurve = () => {
+    const parsed = readCurveSource(curveDraft);
+    setCurvePreview(parsed);
+    if (!parsed.curve) {
+      return;
+    }
+    const next = parsed.curve;
+    localStorage.setItem(CURVE_KEY, curveDraft);
+    setCurve(next);
+    const clamped = normalizeStats(statsRef.current, next);
+    statsRef.current = clamped;
+    setStats(clamped);
+    setSettings((prev) => ({
+      ...prev,
+      negativeLevel: Math.min(prev.negativeLevel, next.maxLevel),
+    }));
+  };
+
+  const resetCurve = () => {
+    localStorage.removeItem(CURVE_KEY);
+    setCurve(DEFAULT_CURVE);
+    setCurveDraft("");
+    setCurvePreview(null);
+    const clamped = normalizeStats(statsRef.current);
+    statsRef.current = clamped;
+    setStats(clamped);
+  };
+
+  const readCurveFile = (file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+    file.text().then((source) => {
+      setCurveDraft(source);
+      setCurvePreview(readCurveSource(source));
+    });
+  };
+
+  const toggleTheme = () => {
     setTheme((prev) => (prev === "dark" ? "light" : "dark"));
   };
 
@@ -915,23 +1539,129 @@ export default function Home() {
     });
   };
 
+  const updateSeedCode = (value: string) => {
+    const cleaned = value.replace(/[^0-9a-z]/gi, "").slice(0, 7).toUpperCase();
+    setSettings((prev) => ({ ...prev, seedCode: cleaned }));
+  };
+
+  const cycleBand = () => {
+    setSettings((prev) => {
+      const index = DIFFICULTY_BANDS.indexOf(prev.band);
+      return {
+        ...prev,
+        band: DIFFICULTY_BANDS[(index + 1) % DIFFICULTY_BANDS.length],
+      };
+    });
+  };
+
+  const cycleTiming = () => {
+    setSettings((prev) => {
+      const index = TIMING_MODES.indexOf(prev.timing);
+      return {
+        ...prev,
+        timing: TIMING_MODES[(index + 1) % TIMING_MODES.length],
+      };
+    });
+  };
+
+  const adjustSessionSeconds = (delta: number) => {
+    setSettings((prev) => {
+      const next = Math.min(
+        Math.max(prev.sessionSeconds + delta, SESSION_SECONDS_RANGE.min),
+        SESSION_SECONDS_RANGE.max
+      );
+      return { ...prev, sessionSeconds: next };
+    });
+  };
+
+  const cycleEngine = () => {
+    setSettings((prev) => {
+      const index = ADAPTIVITY_ENGINES.indexOf(prev.engine);
+      return {
+        ...prev,
+        engine: ADAPTIVITY_ENGINES[(index + 1) % ADAPTIVITY_ENGINES.length],
+      };
+    });
+  };
+
+  const cycleAgeGroup = () => {
+    setSettings((prev) => {
+      const index = AGE_GROUPS.indexOf(prev.ageGroup);
+      return {
+        ...prev,
+        ageGroup: AGE_GROUPS[(index + 1) % AGE_GROUPS.length],
+      };
+    });
+  };
+
+  const cycleUnknownMode = () => {
+    setSettings((prev) => {
+      const index = UNKNOWN_MODES.indexOf(prev.unknown);
+      return {
+        ...prev,
+        unknown: UNKNOWN_MODES[(index + 1) % UNKNOWN_MODES.length],
+      };
+    });
+  };
+
+  const toggleRemainders = () => {
+    setSettings((prev) => ({ ...prev, remainders: !prev.remainders }));
+  };
+
+  const toggleSurvivalStats = () => {
+    setSettings((prev) => ({ ...prev, survivalStats: !prev.survivalStats }));
+  };
+
+  const toggleAcceptUnsimplified = () => {
+    setSettings((prev) => ({
+      ...prev,
+      acceptUnsimplified: !prev.acceptUnsimplified,
+    }));
+  };
+
+  const adjustRepeatGap = (delta: number) => {
+    setSettings((prev) => {
+      const next = Math.min(
+        Math.max(prev.repeatGap + delta, 0),
+        MAX_REPEAT_GAP
+      );
+      return { ...prev, repeatGap: next };
+    });
+  };
+
   const adjustNegativeLevel = (delta: number) => {
     setSettings((prev) => {
-      const next = Math.min(Math.max(prev.negativeLevel + delta, 0), MAX_LEVEL);
+      const next = Math.min(
+        Math.max(prev.negativeLevel + delta, 0),
+        curve.maxLevel
+      );
       return { ...prev, negativeLevel: next };
     });
   };
 
   useEffect(() => {
-    if (screen !== "drill" || !question || answered) {
+    if (
+      screen !== "drill" ||
+      !question ||
+      answered ||
+      sessionKind === "sprint" ||
+      drillTiming === "session" ||
+      drillTiming === "none"
+    ) {
       return;
     }
-    setTimeLeft(settings.timeLimitSeconds);
+    setTimeLeft(drillSettings.timeLimitSeconds);
     const interval = window.setInterval(() => {
       setTimeLeft((prev) => {
+        if (pausedAtRef.current !== null) {
+          return prev;
+        }
         if (prev <= 1) {
           window.clearInterval(interval);
-          handleTimeout();
+          // A soft clock only changes colour; the question stays open.
+          if (drillTiming === "question") {
+            handleTimeout();
+          }
           return 0;
         }
         return prev - 1;
@@ -942,54 +1672,124 @@ export default function Home() {
     };
   }, [
     answered,
+    drillSettings.timeLimitSeconds,
+    drillTiming,
     handleTimeout,
     question?.id,
     screen,
-    settings.timeLimitSeconds,
+    sessionKind,
   ]);
 
+  useEffect(() => {
+    if (
+      screen !== "drill" ||
+      sessionKind === "sprint" ||
+      drillTiming !== "session"
+    ) {
+      return;
+    }
+    const interval = window.setInterval(() => {
+      if (pausedAtRef.current !== null) {
+        return;
+      }
+      const left = getSecondsLeft(budgetEndsAtRef.current, null);
+      setBudgetLeft(left);
+      if (left === 0) {
+        window.clearInterval(interval);
+        finishBudget();
+      }
+    }, 250);
+    return () => {
+      window.clearInterval(interval);
+    };
+  }, [drillTiming, finishBudget, screen, sessionKind]);
+
+  useEffect(() => {
+    if (screen !== "drill" || sessionKind !== "sprint") {
+      return;
+    }
+    const interval = window.setInterval(() => {
+      const left = Math.max(
+        0,
+        Math.ceil((sprintEndsAtRef.current - Date.now()) / 1000)
+      );
+      setSprintLeft(left);
+      if (left === 0) {
+        window.clearInterval(interval);
+        finishSprint();
+      }
+    }, 250);
+    return () => {
+      window.clearInterval(interval);
+    };
+  }, [finishSprint, screen, sessionKind]);
+
   useEffect(() => {
     if (!feedback || (!feedback.correct && !feedback.timedOut)) {
       return;
     }
     clearAdvanceTimer();
+    const delay = sessionKind === "sprint" && feedback.correct ? 0 : 700;
     advanceTimerRef.current = window.setTimeout(() => {
       handleNext();
-    }, 700);
+    }, delay);
     return () => {
       clearAdvanceTimer();
     };
-  }, [feedback, clearAdvanceTimer, handleNext]);
+  }, [feedback, clearAdvanceTimer, handleNext, sessionKind]);
 
   const hasAttempts = useMemo(
     () => Object.values(stats).some((entry) => entry.history.length > 0),
     [stats]
   );
   const weakestSkill = useMemo(() => getWeakestSkill(stats), [stats]);
+  const weakestTable = getWeakestTable(facts);
   const weaknessText = hasAttempts ? SKILL_LABELS[weakestSkill] : "No data yet";
   const hasMistakes = mistakes.length > 0;
   const isMistakeSession = sessionKind === "mistakes";
+  const isPlacement = sessionKind === "placement";
+  const isSprint = sessionKind === "sprint";
+  const isSurvival = sessionKind === "survival";
+  const placementLevels = placement ? getPlacementLevels(placement) : {};
   const allowNegativeAnswer = Boolean(
     question &&
-      question.skill === "sub" &&
-      settings.negativeLevel > 0 &&
-      question.level >= settings.negativeLevel
+      (question.skill === "int" ||
+        (question.skill === "sub" &&
+          drillSettings.negativeLevel > 0 &&
+          question.level >= drillSettings.negativeLevel))
+  );
+  const allowFractionAnswer = Boolean(
+    question && (question.format === "fraction" || question.format === "mixed")
   );
-  const keypadRows = allowNegativeAnswer
-    ? [
-        ["7", "8", "9"],
-        ["4", "5", "6"],
-        ["1", "2", "3"],
-        ["-", "0", "DEL", "CLR"],
-      ]
-    : [
-        ["7", "8", "9"],
-        ["4", "5", "6"],
-        ["1", "2", "3"],
-        ["CLR", "0", "DEL"],
-      ];
-  const skillKeys: SkillKey[] = ["add", "sub", "mul", "div"];
+  const allowDecimalAnswer = question?.format === "decimal";
+  const allowRemainderAnswer = question?.format === "remainder";
+  const keypadRows = getKeypadRows(question, allowNegativeAnswer);
+  // Skills whose current level cannot ask the chosen regrouping, so their
+  // questions are drawn without it.
+  const regroupNote = useMemo(() => {
+    const levels = { add: stats.add.level, sub: stats.sub.level };
+    const misses = REGROUP_SKILLS.filter(
+      (skill) => !canMeetRegroup(skill, levels[skill], settings.regroup, curve)
+    ).map((skill) => `${SKILL_LABELS[skill]} level ${levels[skill]}`);
+    return misses.length > 0
+      ? `${misses.join(" and ")} can't ask "${
+          REGROUP_LABELS[settings.regroup]
+        }" yet, so those questions regroup freely.`
+      : null;
+  }, [stats.add.level, stats.sub.level, settings.regroup, curve]);
   const menuItems: MenuItem[] = [
+    ...(hasAttempts || placedAt !== null
+      ? []
+      : [
+          {
+            key: "placement",
+            label: "Placement test",
+            subtitle: "Find your starting levels",
+            icon: "?",
+            action: { type: "placement" as const },
+            disabled: false,
+          },
+        ]),
     {
       key: "mix",
       label: "Random mix",
@@ -1008,6 +1808,38 @@ export default function Home() {
       action: { type: "mistakes" as const },
       disabled: !hasMistakes,
     },
+    {
+      key: "sprint",
+      label: "Sprint",
+      subtitle: `${settings.sprintSeconds}s against the clock`,
+      icon: "»",
+      action: { type: "sprint" as const },
+      disabled: false,
+    },
+    {
+      key: "survival",
+      label: "Survival",
+      subtitle: `${SURVIVAL_LIVES} lives, rising levels`,
+      icon: "♥",
+      action: { type: "survival" as const },
+      disabled: false,
+    },
+    ...presets.map((preset) => ({
+      key: `preset-${preset.id}`,
+      label: preset.name,
+      subtitle: describePreset(preset),
+      icon: "★",
+      action: { type: "preset" as const, id: preset.id },
+      disabled: false,
+    })),
+    {
+      key: "builder",
+      label: "Custom drill",
+      subtitle: "Build and save your own",
+      icon: "+",
+      action: { type: "builder" as const },
+      disabled: false,
+    },
     {
       key: "add",
       label: "Addition",
@@ -1040,6 +1872,62 @@ export default function Home() {
       action: { type: "mode", mode: "div" as const },
       disabled: false,
     },
+    {
+      key: "tables",
+      label: "Times tables",
+      subtitle: getTableDrillLabel(settings.tableDrill),
+      icon: "#",
+      action: { type: "tables" as const },
+      disabled: false,
+    },
+    {
+      key: "frac",
+      label: "Fractions",
+      subtitle: "Parts of a whole",
+      icon: SKILL_SYMBOLS.frac,
+      action: { type: "mode", mode: "frac" as const },
+      disabled: false,
+    },
+    {
+      key: "dec",
+      label: "Decimals",
+      subtitle: "Place value practice",
+      icon: SKILL_SYMBOLS.dec,
+      action: { type: "mode", mode: "dec" as const },
+      disabled: false,
+    },
+    {
+      key: "pct",
+      label: "Percentages",
+      subtitle: "Parts of a hundred",
+      icon: SKILL_SYMBOLS.pct,
+      action: { type: "mode", mode: "pct" as const },
+      disabled: false,
+    },
+    {
+      key: "pow",
+      label: "Powers & roots",
+      subtitle: "Squares, cubes and √",
+      icon: SKILL_SYMBOLS.pow,
+      action: { type: "mode", mode: "pow" as const },
+      disabled: false,
+    },
+    {
+      key: "expr",
+      label: "Expressions",
+      subtitle: "Order of operations",
+      icon: SKILL_SYMBOLS.expr,
+      action: { type: "mode", mode: "expr" as const },
+      disabled: false,
+    },
+    {
+      key: "int",
+      label: "Integers",
+      subtitle: "Negative numbers",
+      icon: SKILL_SYMBOLS.int,
+      action: { type: "mode", mode: "int" as const },
+      disabled: false,
+    },
   ];
   const totalAnswered = session.correct + session.wrong;
   const accuracy = totalAnswered
@@ -1047,16 +1935,64 @@ export default function Home() {
     : 0;
   const modeLabel = isMistakeSession
     ? "Mistake practice"
-    : mode === "mix"
-      ? "Random mix"
-      : SKILL_LABELS[mode];
+    : isPlacement
+      ? "Placement"
+      : activePreset
+        ? activePreset.name
+        : activeTableDrill
+          ? getTableDrillLabel(activeTableDrill)
+          : getModeLabel(mode);
   const drillSub = isMistakeSession
     ? "Deliberate practice to build speed on missed problems."
-    : "Answer fast and correct to level up.";
+    : isPlacement
+      ? "Answer what you can. Each question narrows down where you start."
+      : isSprint
+        ? "As many correct answers as you can before the clock runs out."
+        : isSurvival
+          ? `The level rises every ${SURVIVAL_STEP} correct answers. Each miss costs a life.`
+          : "Answer fast and correct to level up.";
   const sessionQuestionCount = isMistakeSession
     ? mistakeQueue.length
-    : settings.questionCount;
-  const timeLeftLabel = formatSeconds(timeLeft);
+    : isPlacement && placement
+      ? getPlacementLength(placement)
+      : drillSettings.questionCount;
+  const clockLabel = isSprint
+    ? `Time ${formatSeconds(sprintLeft)}`
+    : drillTiming === "none"
+      ? "Untimed"
+      : drillTiming === "session"
+        ? `Time ${formatSeconds(budgetLeft)}`
+        : `Time ${formatSeconds(timeLeft)}`;
+  const clockWarning = isSprint
+    ? sprintLeft <= 5
+    : drillTiming === "none"
+      ? false
+      : drillTiming === "session"
+        ? budgetLeft <= 10
+        : timeLeft <= 3;
+  const describeSavedSession = (saved: SavedSession) => {
+    const label =
+      saved.kind === "mistakes"
+        ? "Mistake practice"
+        : saved.kind === "placement"
+          ? "Placement"
+          : saved.preset
+            ? saved.preset.name
+            : saved.tableDrill
+              ? getTableDrillLabel(saved.tableDrill)
+              : getModeLabel(saved.mode);
+    if (saved.survival) {
+      const lives = `${saved.survival.lives}/${SURVIVAL_LIVES}`;
+      return `${label} survival · Lives ${lives}`;
+    }
+    const total =
+      saved.kind === "mistakes"
+        ? saved.mistakeQueue.length
+        : saved.kind === "placement" && saved.placement
+          ? getPlacementLength(saved.placement)
+          : (saved.preset ?? settings).questionCount;
+    return `${label} · Question ${saved.questionIndex}/${total}`;
+  };
   const appBarTitle =
     screen === "menu"
       ? "Math Training Lab"
@@ -1066,8 +2002,16 @@ export default function Home() {
           ? "Session summary"
           : screen === "stats"
             ? "Statistics"
-            : "Settings";
-  const allHistory = skillKeys.flatMap((skill) => stats[skill].history);
+            : screen === "tables"
+              ? "Times tables"
+              : screen === "sprint"
+                ? "Sprint"
+                : screen === "survival"
+                  ? "Survival"
+                  : screen === "builder"
+                    ? "Custom drill"
+                    : "Settings";
+  const allHistory = SKILL_LIST.flatMap((skill) => stats[skill].history);
   const allCorrect = allHistory.filter((item) => item.correct).length;
   const allAttempts = allHistory.length;
   const overallAccuracy = allAttempts
@@ -1075,13 +2019,7 @@ export default function Home() {
     : 0;
   const totalMs = allHistory.reduce((sum, item) => sum + item.ms, 0);
   const overallAvgMs = allAttempts ? totalMs / allAttempts : 0;
-  const feedbackText = feedback
-    ? feedback.correct
-      ? `Correct. ${formatMs(feedback.ms)}.`
-      : feedback.timedOut
-        ? `Time's up. Answer: ${feedback.expected}.`
-        : `Not yet. Answer: ${feedback.expected}.`
-    : "";
+  const feedbackText = getFeedbackText(feedback);
   const tipText = question ? getTipForQuestion(question) : "";
 
   let content: React.ReactElement | null = null;
@@ -1102,7 +2040,11 @@ export default function Home() {
             </div>
             <div className={styles.metaBadge}>
               <span className={styles.metaBadgeText}>
-                {settings.timeLimitSeconds}s per question
+                {settings.timing === "none"
+                  ? "Untimed"
+                  : settings.timing === "session"
+                    ? `${settings.sessionSeconds}s per session`
+                    : `${settings.timeLimitSeconds}s per question`}
               </span>
             </div>
             <div className={styles.metaBadge}>
@@ -1118,7 +2060,63 @@ export default function Home() {
                   : `Lvl ${settings.negativeLevel}+`}
               </span>
             </div>
+            {settings.unknown !== "result" ? (
+              <div className={styles.metaBadge}>
+                <span className={styles.metaBadgeText}>
+                  Unknown: {UNKNOWN_LABELS[settings.unknown]}
+                </span>
+              </div>
+            ) : null}
+          </div>
+        </section>
+
+        {savedSession ? (
+          <section className={styles.card}>
+            <h2 className={styles.sectionTitle}>Resume drill</h2>
+            <p className={styles.sectionSub}>
+              {describeSavedSession(savedSession)}
+            </p>
+            <div className={styles.actionRow}>
+              <button
+                type="button"
+                onClick={() => resumeSavedSession(savedSession)}
+                className={styles.primaryButton}
+              >
+                Resume drill
+              </button>
+              <button
+                type="button"
+                onClick={discardSavedSession}
+                className={styles.secondaryButton}
+              >
+                Discard
+              </button>
+            </div>
+          </section>
+        ) : null}
+
+        <section className={styles.drillOptions}>
+          <p className={styles.drillOptionsLabel}>
+            Regrouping for addition and subtraction
+          </p>
+          <div className={styles.menuMetaRow}>
+            {REGROUP_MODES.map((regroup) => (
+              <button
+                key={regroup}
+                type="button"
+                aria-pressed={settings.regroup === regroup}
+                onClick={() => setSettings((prev) => ({ ...prev, regroup }))}
+                className={`${styles.optionChip} ${
+                  settings.regroup === regroup ? styles.optionChipActive : ""
+                }`}
+              >
+                {REGROUP_LABELS[regroup]}
+              </button>
+            ))}
           </div>
+          {regroupNote ? (
+            <p className={styles.settingHint}>{regroupNote}</p>
+          ) : null}
         </section>
 
         <div className={styles.menuGrid}>
@@ -1130,6 +2128,34 @@ export default function Home() {
                   startMistakeSession();
                   return;
                 }
+                if (item.action.type === "tables") {
+                  setScreen("tables");
+                  return;
+                }
+                if (item.action.type === "placement") {
+                  startPlacement();
+                  return;
+                }
+                if (item.action.type === "sprint") {
+                  setScreen("sprint");
+                  return;
+                }
+                if (item.action.type === "survival") {
+                  setScreen("survival");
+                  return;
+                }
+                if (item.action.type === "builder") {
+                  openBuilder();
+                  return;
+                }
+                if (item.action.type === "preset") {
+                  const { id } = item.action;
+                  const preset = presets.find((entry) => entry.id === id);
+                  if (preset) {
+                    startSession("mix", undefined, { preset });
+                  }
+                  return;
+                }
                 startSession(item.action.mode);
               }}
               type="button"
@@ -1171,15 +2197,19 @@ export default function Home() {
         <div className={styles.statusRow}>
           <div className={styles.statusPill}>
             <span className={styles.statusText}>
-              Question {questionIndex}/{sessionQuestionCount}
+              {isSprint
+                ? `Score ${session.correct}`
+                : isSurvival
+                  ? `Lives ${survival?.lives ?? 0}/${SURVIVAL_LIVES}`
+                  : `Question ${questionIndex}/${sessionQuestionCount}`}
             </span>
           </div>
           <div
             className={`${styles.statusPill} ${
-              timeLeft <= 3 ? styles.statusPillWarning : ""
+              clockWarning ? styles.statusPillWarning : ""
             }`}
           >
-            <span className={styles.statusText}>Time {timeLeftLabel}</span>
+            <span className={styles.statusText}>{clockLabel}</span>
           </div>
         </div>
 
@@ -1187,7 +2217,31 @@ export default function Home() {
           <h2 className={styles.sectionTitle}>{modeLabel} drill</h2>
           <p className={styles.sectionSub}>{drillSub}</p>
 
-          {question ? (
+          {question && paused ? (
+            <div className={styles.questionCard}>
+              <div className={styles.questionText}>Paused</div>
+              <p className={styles.sectionSub}>
+                The timer is stopped and the question is hidden. Your progress
+                is kept if you leave.
+              </p>
+              <div className={styles.actionRow}>
+                <button
+                  type="button"
+                  onClick={resumeDrill}
+                  className={styles.primaryButton}
+                >
+                  Resume
+                </button>
+                <button
+                  type="button"
+                  onClick={goToMenu}
+                  className={styles.secondaryButton}
+                >
+                  Back to menu
+                </button>
+              </div>
+            </div>
+          ) : question ? (
             <div className={styles.questionCard}>
               <div className={styles.metaRow}>
                 <span className={styles.metaPill}>
@@ -1195,7 +2249,10 @@ export default function Home() {
                 </span>
                 <span className={styles.metaPill}>Level {question.level}</span>
                 <span className={styles.metaPill}>
-                  Target {formatMs(getTargetMs(question.level))}
+                  Target{" "}
+                  {formatMs(
+                    getTargetMs(stats[question.skill], settings.ageGroup)
+                  )}
                 </span>
               </div>
 
@@ -1254,12 +2311,30 @@ export default function Home() {
                       ref={inputRef}
                       className={styles.answerInput}
                       type="text"
-                      inputMode="numeric"
-                      pattern="[0-9]*"
+                      inputMode={
+                        allowFractionAnswer || allowRemainderAnswer
+                          ? "text"
+                          : allowDecimalAnswer
+                            ? "decimal"
+                            : "numeric"
+                      }
+                      pattern={
+                        allowFractionAnswer ||
+                        allowDecimalAnswer ||
+                        allowRemainderAnswer
+                          ? undefined
+                          : "[0-9]*"
+                      }
                       value={answer}
                       onChange={(event) => {
                         const raw = event.target.value;
-                        let cleaned = raw.replace(/[^0-9-]/g, "");
+                        let cleaned = allowFractionAnswer
+                          ? raw.replace(/[^0-9/ -]/g, "")
+                          : allowDecimalAnswer
+                            ? raw.replace(/[^0-9.-]/g, "")
+                            : allowRemainderAnswer
+                              ? raw.replace(/[^0-9rR ]/g, "")
+                              : raw.replace(/[^0-9-]/g, "");
                         if (!allowNegativeAnswer) {
                           cleaned = cleaned.replace(/-/g, "");
                         } else if (cleaned.includes("-")) {
@@ -1310,6 +2385,18 @@ export default function Home() {
                   >
                     {showTip ? "Hide tip" : "Show tip"}
                   </button>
+                  {isSprint ? null : (
+                    <button
+                      type="button"
+                      onClick={pauseDrill}
+                      disabled={answered}
+                      className={`${styles.secondaryButton} ${
+                        answered ? styles.buttonDisabled : ""
+                      }`}
+                    >
+                      Pause
+                    </button>
+                  )}
                 </div>
               </div>
 
@@ -1390,7 +2477,7 @@ export default function Home() {
         </section>
 
         <div className={styles.statGrid}>
-          {skillKeys.map((skill) => {
+          {SKILL_LIST.map((skill) => {
             const history = stats[skill].history;
             const accuracy = getAccuracy(stats[skill]);
             const avgMs = getAverageMs(stats[skill]);
@@ -1399,6 +2486,9 @@ export default function Home() {
                 ? "No data"
                 : `${Math.round(accuracy * 100)}%`;
             const speedText = history.length === 0 ? "-" : formatMs(avgMs);
+            const targetText = formatMs(
+              getTargetMs(stats[skill], settings.ageGroup)
+            );
             const barWidth =
               history.length === 0 ? "0%" : `${Math.round(accuracy * 100)}%`;
 
@@ -1426,6 +2516,22 @@ export default function Home() {
                     <p className={styles.metricLabel}>Avg time</p>
                     <p className={styles.metricValue}>{speedText}</p>
                   </div>
+                  <div className={styles.metricDivider} />
+                  <div>
+                    <p className={styles.metricLabel}>Target</p>
+                    <p className={styles.metricValue}>{targetText}</p>
+                  </div>
+                  {settings.engine === "rating" ? (
+                    <>
+                      <div className={styles.metricDivider} />
+                      <div>
+                        <p className={styles.metricLabel}>Rating</p>
+                        <p className={styles.metricValue}>
+                          {Math.round(getSkillRating(stats[skill]))}
+                        </p>
+                      </div>
+                    </>
+                  ) : null}
                 </div>
                 <div className={styles.dotRow}>
                   {history.length === 0 ? (
@@ -1445,30 +2551,857 @@ export default function Home() {
             );
           })}
         </div>
-      </>
-    );
-  }
 
-  if (screen === "summary") {
-    content = (
-      <section className={styles.card}>
-        <h2 className={styles.sectionTitle}>Session complete</h2>
-        <p className={styles.sectionSub}>{modeLabel} drill</p>
-        <div className={styles.summaryGrid}>
-          <div className={styles.summaryCard}>
-            <p className={styles.summaryLabel}>Accuracy</p>
-            <p className={styles.summaryValue}>{accuracy}%</p>
-          </div>
-          <div className={styles.summaryCard}>
-            <p className={styles.summaryLabel}>Correct</p>
-            <p className={styles.summaryValue}>{session.correct}</p>
-          </div>
-          <div className={styles.summaryCard}>
-            <p className={styles.summaryLabel}>Wrong</p>
-            <p className={styles.summaryValue}>{session.wrong}</p>
+        <section className={styles.card}>
+          <h2 className={styles.sectionTitle}>Times tables</h2>
+          <p className={styles.sectionSub}>
+            Automatic multiplication and division facts per table.
+          </p>
+          <div className={styles.tableGrid}>
+            {TIMES_TABLES.map((table) => {
+              const mastery = getTableMastery(facts, table);
+              return (
+                <div
+                  key={table}
+                  className={`${styles.tableCell} ${
+                    mastery === 1 ? styles.tableCellMastered : ""
+                  }`}
+                >
+                  <span className={styles.tableCellNumber}>{table}s</span>
+                  <span className={styles.tableCellValue}>
+                    {mastery === 1
+                      ? "Mastered"
+                      : `${Math.round(mastery * 100)}%`}
+                  </span>
+                </div>
+              );
+            })}
           </div>
-        </div>
-        <button
+          <button
+            type="button"
+            onClick={() =>
+              startTableDrill({
+                tables: [weakestTable],
+                minFactor: 0,
+                maxFactor: 12,
+                ops: "both",
+              })
+            }
+            className={`${styles.primaryButton} ${styles.fullWidthButton} ${styles.tableAction}`}
+          >
+            Drill the {weakestTable}s
+          </button>
+        </section>
+
+        <section className={styles.card}>
+          <h2 className={styles.sectionTitle}>Fact mastery</h2>
+          <p className={styles.sectionSub}>
+            A fact is automatic after 3+ tries answered reliably within{" "}
+            {formatMs(AUTOMATIC_MS)}.
+          </p>
+          {MIX_SKILLS.map((skill) => {
+            const keys = listBasicFacts(skill);
+            const tried = keys.filter((key) => facts[key]);
+            const automatic = tried.filter(
+              (key) => getFactMastery(facts[key]) === "automatic"
+            );
+            const learning = tried
+              .filter((key) => getFactMastery(facts[key]) === "learning")
+              .sort(
+                (a, b) =>
+                  facts[a].accuracy - facts[b].accuracy ||
+                  facts[b].avgMs - facts[a].avgMs
+              );
+            return (
+              <div key={skill} className={styles.factGroup}>
+                <p className={styles.settingLabel}>
+                  {SKILL_LABELS[skill]}: {automatic.length} of {keys.length}{" "}
+                  automatic
+                </p>
+                {tried.length === 0 ? (
+                  <p className={styles.settingHint}>No facts practised yet.</p>
+                ) : (
+                  <div className={styles.factList}>
+                    {learning.map((key) => (
+                      <span
+                        key={key}
+                        className={`${styles.factChip} ${styles.factChipLearning}`}
+                        title={`${Math.round(facts[key].accuracy * 100)}% · ${formatMs(facts[key].avgMs)}`}
+                      >
+                        {key.slice(skill.length + 1)}
+                      </span>
+                    ))}
+                    {automatic.map((key) => (
+                      <span
+                        key={key}
+                        className={`${styles.factChip} ${styles.factChipAutomatic}`}
+                        title={`${Math.round(facts[key].accuracy * 100)}% · ${formatMs(facts[key].avgMs)}`}
+                      >
+                        {key.slice(skill.length + 1)}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </section>
+      </>
+    );
+  }
+
+  if (screen === "sprint") {
+    content = (
+      <section className={styles.card}>
+        <h2 className={styles.sectionTitle}>Sprint</h2>
+        <p className={styles.sectionSub}>
+          One clock for the whole run and no timer per question. Pick a length,
+          then a skill to beat your best.
+        </p>
+
+        <div className={styles.menuMetaRow}>
+          {SPRINT_DURATIONS.map((seconds) => (
+            <button
+              key={seconds}
+              type="button"
+              aria-pressed={settings.sprintSeconds === seconds}
+              onClick={() =>
+                setSettings((prev) => ({ ...prev, sprintSeconds: seconds }))
+              }
+              className={`${styles.optionChip} ${
+                settings.sprintSeconds === seconds ? styles.optionChipActive : ""
+              }`}
+            >
+              {seconds}s
+            </button>
+          ))}
+        </div>
+
+        <div className={`${styles.menuGrid} ${styles.runGrid}`}>
+          {RUN_MODES.map((sprintMode) => {
+            const best = getSprintBest(
+              sprintBests,
+              sprintMode,
+              settings.sprintSeconds
+            );
+            return (
+              <button
+                key={sprintMode}
+                type="button"
+                onClick={() => startSprint(sprintMode)}
+                className={styles.menuButton}
+              >
+                <span className={styles.menuIcon}>
+                  {sprintMode === "mix" ? "M" : SKILL_SYMBOLS[sprintMode]}
+                </span>
+                <span>
+                  <span className={styles.menuLabel}>
+                    {getModeLabel(sprintMode)}
+                  </span>
+                  <span className={styles.menuSub}>
+                    {best
+                      ? `Best ${best.score} · ${best.rate}/min`
+                      : "No best yet"}
+                  </span>
+                </span>
+              </button>
+            );
+          })}
+        </div>
+
+        <button
+          type="button"
+          onClick={goToMenu}
+          className={`${styles.secondaryButton} ${styles.fullWidthButton}`}
+        >
+          Back to menu
+        </button>
+      </section>
+    );
+  }
+
+  if (screen === "survival") {
+    content = (
+      <section className={styles.card}>
+        <h2 className={styles.sectionTitle}>Survival</h2>
+        <p className={styles.sectionSub}>
+          Start at level 1 with {SURVIVAL_LIVES} lives. Every {SURVIVAL_STEP}{" "}
+          correct answers the level goes up, and a wrong answer or timeout
+          costs a life.
+        </p>
+
+        <div className={styles.settingRow}>
+          <div className={styles.settingInfo}>
+            <p className={styles.settingLabel}>Count towards stats</p>
+            <p className={styles.settingHint}>
+              Off keeps survival runs out of your levels and fact mastery.
+            </p>
+          </div>
+          <div className={styles.stepper}>
+            <button
+              type="button"
+              onClick={toggleSurvivalStats}
+              aria-pressed={settings.survivalStats}
+              className={styles.stepperButton}
+            >
+              <span className={styles.stepperButtonText}>
+                {settings.survivalStats ? "On" : "Off"}
+              </span>
+            </button>
+          </div>
+        </div>
+
+        <div className={`${styles.menuGrid} ${styles.runGrid}`}>
+          {RUN_MODES.map((survivalMode) => {
+            const best = survivalBests[survivalMode];
+            return (
+              <button
+                key={survivalMode}
+                type="button"
+                onClick={() => startSurvival(survivalMode)}
+                className={styles.menuButton}
+              >
+                <span className={styles.menuIcon}>
+                  {survivalMode === "mix" ? "M" : SKILL_SYMBOLS[survivalMode]}
+                </span>
+                <span>
+                  <span className={styles.menuLabel}>
+                    {getModeLabel(survivalMode)}
+                  </span>
+                  <span className={styles.menuSub}>
+                    {best
+                      ? `Best level ${best.level} · ${best.correct} correct`
+                      : "No run yet"}
+                  </span>
+                </span>
+              </button>
+            );
+          })}
+        </div>
+
+        <button
+          type="button"
+          onClick={goToMenu}
+          className={`${styles.secondaryButton} ${styles.fullWidthButton}`}
+        >
+          Back to menu
+        </button>
+      </section>
+    );
+  }
+
+  if (screen === "builder") {
+    const draft = presetDraft;
+    content = (
+      <section className={styles.card}>
+        <h2 className={styles.sectionTitle}>
+          {editingPresetId ? "Edit custom drill" : "Custom drill"}
+        </h2>
+        <p className={styles.sectionSub}>
+          Pick the skills and how often each comes up, fix or range their
+          levels, then save it as a card on the menu.
+        </p>
+
+        <input
+          className={styles.answerInput}
+          type="text"
+          value={draft.name}
+          maxLength={MAX_PRESET_NAME}
+          onChange={(event) =>
+            setPresetDraft((prev) => ({ ...prev, name: event.target.value }))
+          }
+          placeholder="Drill name"
+          autoComplete="off"
+          aria-label="Drill name"
+        />
+
+        {SKILL_LIST.map((skill) => {
+          const entry = draft.skills.find((item) => item.skill === skill);
+          const isRange =
+            entry?.minLevel !== undefined && entry.minLevel !== entry.maxLevel;
+          return (
+            <div key={skill}>
+              <div className={styles.settingRow}>
+                <div className={styles.settingInfo}>
+                  <p className={styles.settingLabel}>{SKILL_LABELS[skill]}</p>
+                  <p className={styles.settingHint}>
+                    {entry
+                      ? `Weight ${entry.weight} · ${describePresetLevels(entry)}`
+                      : "Not included"}
+                  </p>
+                </div>
+                <div className={styles.stepper}>
+                  <button
+                    type="button"
+                    onClick={() => togglePresetSkill(skill)}
+                    aria-pressed={Boolean(entry)}
+                    className={styles.stepperButton}
+                  >
+                    <span className={styles.stepperButtonText}>
+                      {entry ? "On" : "Off"}
+                    </span>
+                  </button>
+                  {entry ? (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => adjustPresetWeight(skill, -1)}
+                        className={styles.stepperButton}
+                        aria-label={`Less ${SKILL_LABELS[skill]}`}
+                      >
+                        <span className={styles.stepperButtonText}>-</span>
+                      </button>
+                      <span className={styles.stepperValue}>
+                        ×{entry.weight}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => adjustPresetWeight(skill, 1)}
+                        className={styles.stepperButton}
+                        aria-label={`More ${SKILL_LABELS[skill]}`}
+                      >
+                        <span className={styles.stepperButtonText}>+</span>
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => cyclePresetLevels(skill)}
+                        className={styles.stepperButton}
+                      >
+                        <span className={styles.stepperButtonText}>
+                          {entry.minLevel === undefined
+                            ? "Adaptive"
+                            : isRange
+                              ? "Range"
+                              : "Fixed"}
+                        </span>
+                      </button>
+                    </>
+                  ) : null}
+                </div>
+              </div>
+              {entry && entry.minLevel !== undefined ? (
+                <div className={styles.settingRow}>
+                  <div className={styles.settingInfo}>
+                    <p className={styles.settingHint}>
+                      {isRange ? "Lowest and highest level" : "Level"}
+                    </p>
+                  </div>
+                  <div className={styles.stepper}>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        adjustPresetLevel(
+                          skill,
+                          isRange ? "minLevel" : "level",
+                          -1
+                        )
+                      }
+                      className={styles.stepperButton}
+                    >
+                      <span className={styles.stepperButtonText}>-</span>
+                    </button>
+                    <span className={styles.stepperValue}>
+                      {entry.minLevel}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        adjustPresetLevel(
+                          skill,
+                          isRange ? "minLevel" : "level",
+                          1
+                        )
+                      }
+                      className={styles.stepperButton}
+                    >
+                      <span className={styles.stepperButtonText}>+</span>
+                    </button>
+                    {isRange ? (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            adjustPresetLevel(skill, "maxLevel", -1)
+                          }
+                          className={styles.stepperButton}
+                        >
+                          <span className={styles.stepperButtonText}>-</span>
+                        </button>
+                        <span className={styles.stepperValue}>
+                          {entry.maxLevel}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            adjustPresetLevel(skill, "maxLevel", 1)
+                          }
+                          className={styles.stepperButton}
+                        >
+                          <span className={styles.stepperButtonText}>+</span>
+                        </button>
+                      </>
+                    ) : null}
+                  </div>
+                </div>
+              ) : null}
+            </div>
+          );
+        })}
+
+        <div className={styles.settingRow}>
+          <div className={styles.settingInfo}>
+            <p className={styles.settingLabel}>Questions</p>
+          </div>
+          <div className={styles.stepper}>
+            <button
+              type="button"
+              onClick={() => adjustPresetDraft("questionCount", -1)}
+              className={styles.stepperButton}
+            >
+              <span className={styles.stepperButtonText}>-</span>
+            </button>
+            <span className={styles.stepperValue}>{draft.questionCount}</span>
+            <button
+              type="button"
+              onClick={() => adjustPresetDraft("questionCount", 1)}
+              className={styles.stepperButton}
+            >
+              <span className={styles.stepperButtonText}>+</span>
+            </button>
+          </div>
+        </div>
+
+        <div className={styles.settingRow}>
+          <div className={styles.settingInfo}>
+            <p className={styles.settingLabel}>Time per question</p>
+          </div>
+          <div className={styles.stepper}>
+            <button
+              type="button"
+              onClick={() => adjustPresetDraft("timeLimitSeconds", -1)}
+              className={styles.stepperButton}
+            >
+              <span className={styles.stepperButtonText}>-</span>
+            </button>
+            <span className={styles.stepperValue}>
+              {draft.timeLimitSeconds}s
+            </span>
+            <button
+              type="button"
+              onClick={() => adjustPresetDraft("timeLimitSeconds", 1)}
+              className={styles.stepperButton}
+            >
+              <span className={styles.stepperButtonText}>+</span>
+            </button>
+          </div>
+        </div>
+
+        <div className={styles.settingRow}>
+          <div className={styles.settingInfo}>
+            <p className={styles.settingLabel}>Negative subtraction</p>
+            <p className={styles.settingHint}>
+              From this subtraction level, answers can go below zero.
+            </p>
+          </div>
+          <div className={styles.stepper}>
+            <button
+              type="button"
+              onClick={() => adjustPresetDraft("negativeLevel", -1)}
+              className={styles.stepperButton}
+            >
+              <span className={styles.stepperButtonText}>-</span>
+            </button>
+            <span className={styles.stepperValue}>
+              {draft.negativeLevel === 0
+                ? "Off"
+                : `Level ${draft.negativeLevel}+`}
+            </span>
+            <button
+              type="button"
+              onClick={() => adjustPresetDraft("negativeLevel", 1)}
+              className={styles.stepperButton}
+            >
+              <span className={styles.stepperButtonText}>+</span>
+            </button>
+          </div>
+        </div>
+
+        {presetErrors.map((message) => (
+          <p key={message} className={styles.errorText}>
+            {message}
+          </p>
+        ))}
+
+        <div className={`${styles.actionRow} ${styles.tableAction}`}>
+          <button
+            type="button"
+            onClick={savePreset}
+            disabled={draft.skills.length === 0}
+            className={`${styles.primaryButton} ${
+              draft.skills.length === 0 ? styles.buttonDisabled : ""
+            }`}
+          >
+            Save drill
+          </button>
+          <button
+            type="button"
+            onClick={() => showPresetExport(draft)}
+            className={styles.secondaryButton}
+          >
+            Export
+          </button>
+          <button
+            type="button"
+            onClick={goToMenu}
+            className={styles.secondaryButton}
+          >
+            Back to menu
+          </button>
+        </div>
+
+        {presets.length > 0 ? (
+          <>
+            <h3 className={styles.settingLabel}>Saved drills</h3>
+            {presets.map((preset) => (
+              <div key={preset.id} className={styles.settingRow}>
+                <div className={styles.settingInfo}>
+                  <p className={styles.settingLabel}>{preset.name}</p>
+                  <p className={styles.settingHint}>
+                    {describePreset(preset)}
+                  </p>
+                </div>
+                <div className={styles.stepper}>
+                  <button
+                    type="button"
+                    onClick={() => openBuilder(preset)}
+                    className={styles.stepperButton}
+                  >
+                    <span className={styles.stepperButtonText}>Edit</span>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => showPresetExport(preset)}
+                    className={styles.stepperButton}
+                  >
+                    <span className={styles.stepperButtonText}>Export</span>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => deletePreset(preset.id)}
+                    className={styles.stepperButton}
+                  >
+                    <span className={styles.stepperButtonText}>Delete</span>
+                  </button>
+                </div>
+              </div>
+            ))}
+          </>
+        ) : null}
+
+        <div className={styles.settingRow}>
+          <div className={styles.settingInfo}>
+            <p className={styles.settingLabel}>Share</p>
+            <p className={styles.settingHint}>
+              Exported drills are copied as JSON. Paste one here to import it,
+              then save.
+            </p>
+          </div>
+        </div>
+        <textarea
+          className={`${styles.answerInput} ${styles.curveEditor}`}
+          value={presetSource}
+          onChange={(event) => setPresetSource(event.target.value)}
+          placeholder={'{ "name": "Tables warm-up", "skills": [{ "skill": "mul", "weight": 2, "minLevel": 3, "maxLevel": 5 }], "questionCount": 20, "timeLimitSeconds": 8, "negativeLevel": 0 }'}
+          spellCheck={false}
+          aria-label="Custom drill JSON"
+        />
+        <div className={`${styles.actionRow} ${styles.curveActions}`}>
+          <button
+            type="button"
+            onClick={importPreset}
+            disabled={!presetSource.trim()}
+            className={`${styles.secondaryButton} ${
+              !presetSource.trim() ? styles.buttonDisabled : ""
+            }`}
+          >
+            Import
+          </button>
+        </div>
+      </section>
+    );
+  }
+
+  if (screen === "tables") {
+    const drill = settings.tableDrill;
+    content = (
+      <section className={styles.card}>
+        <h2 className={styles.sectionTitle}>Times tables</h2>
+        <p className={styles.sectionSub}>
+          Tick the tables to focus on and the range of the other factor.
+        </p>
+
+        <div className={styles.tableGrid}>
+          {TIMES_TABLES.map((table) => (
+            <button
+              key={table}
+              type="button"
+              aria-pressed={drill.tables.includes(table)}
+              onClick={() => toggleTable(table)}
+              className={`${styles.tableCell} ${
+                drill.tables.includes(table) ? styles.tableCellActive : ""
+              }`}
+            >
+              <span className={styles.tableCellNumber}>{table}</span>
+            </button>
+          ))}
+        </div>
+
+        <div className={styles.settingRow}>
+          <div className={styles.settingInfo}>
+            <p className={styles.settingLabel}>Smallest factor</p>
+          </div>
+          <div className={styles.stepper}>
+            <button
+              type="button"
+              onClick={() => adjustTableFactor("minFactor", -1)}
+              className={styles.stepperButton}
+            >
+              <span className={styles.stepperButtonText}>-</span>
+            </button>
+            <span className={styles.stepperValue}>{drill.minFactor}</span>
+            <button
+              type="button"
+              onClick={() => adjustTableFactor("minFactor", 1)}
+              className={styles.stepperButton}
+            >
+              <span className={styles.stepperButtonText}>+</span>
+            </button>
+          </div>
+        </div>
+
+        <div className={styles.settingRow}>
+          <div className={styles.settingInfo}>
+            <p className={styles.settingLabel}>Largest factor</p>
+          </div>
+          <div className={styles.stepper}>
+            <button
+              type="button"
+              onClick={() => adjustTableFactor("maxFactor", -1)}
+              className={styles.stepperButton}
+            >
+              <span className={styles.stepperButtonText}>-</span>
+            </button>
+            <span className={styles.stepperValue}>{drill.maxFactor}</span>
+            <button
+              type="button"
+              onClick={() => adjustTableFactor("maxFactor", 1)}
+              className={styles.stepperButton}
+            >
+              <span className={styles.stepperButtonText}>+</span>
+            </button>
+          </div>
+        </div>
+
+        <div className={styles.settingRow}>
+          <div className={styles.settingInfo}>
+            <p className={styles.settingLabel}>Practise</p>
+            <p className={styles.settingHint}>
+              Division uses the matching facts, e.g. 42 / 7.
+            </p>
+          </div>
+          <div className={styles.stepper}>
+            <button
+              type="button"
+              onClick={cycleTableOps}
+              className={styles.stepperButton}
+            >
+              <span className={styles.stepperButtonText}>
+                {TABLE_OP_LABELS[drill.ops]}
+              </span>
+            </button>
+          </div>
+        </div>
+
+        <div className={`${styles.actionRow} ${styles.tableAction}`}>
+          <button
+            type="button"
+            onClick={() => startTableDrill(drill)}
+            disabled={drill.tables.length === 0}
+            className={`${styles.primaryButton} ${
+              drill.tables.length === 0 ? styles.buttonDisabled : ""
+            }`}
+          >
+            Start drill
+          </button>
+          <button
+            type="button"
+            onClick={goToMenu}
+            className={styles.secondaryButton}
+          >
+            Back to menu
+          </button>
+        </div>
+      </section>
+    );
+  }
+
+  if (screen === "summary" && isPlacement) {
+    content = (
+      <section className={styles.card}>
+        <h2 className={styles.sectionTitle}>Placement complete</h2>
+        <p className={styles.sectionSub}>
+          Your drills now start at these levels and adapt from there.
+        </p>
+        <div className={styles.summaryGrid}>
+          {(placement?.skills ?? []).map((skill) => (
+            <div key={skill} className={styles.summaryCard}>
+              <p className={styles.summaryLabel}>{SKILL_LABELS[skill]}</p>
+              <p className={styles.summaryValue}>
+                Lvl {placementLevels[skill] ?? stats[skill].level}
+              </p>
+            </div>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={() => startSession("mix")}
+          className={styles.primaryButton}
+        >
+          Start a random mix
+        </button>
+        <button type="button" onClick={goToMenu} className={styles.secondaryButton}>
+          Back to menu
+        </button>
+      </section>
+    );
+  } else if (screen === "summary" && isSprint && sprintSeconds !== null) {
+    const best = getSprintBest(sprintBests, mode, sprintSeconds);
+    content = (
+      <section className={styles.card}>
+        <h2 className={styles.sectionTitle}>
+          {sprintResult?.isBest ? "New personal best" : "Time's up"}
+        </h2>
+        <p className={styles.sectionSub}>
+          {getModeLabel(mode)} sprint · {sprintSeconds}s
+          {sprintResult?.isBest && sprintResult.previous
+            ? ` · Previous best ${sprintResult.previous.score}`
+            : ""}
+        </p>
+        <div className={styles.summaryGrid}>
+          <div className={styles.summaryCard}>
+            <p className={styles.summaryLabel}>Score</p>
+            <p className={styles.summaryValue}>{session.correct}</p>
+          </div>
+          <div className={styles.summaryCard}>
+            <p className={styles.summaryLabel}>Per minute</p>
+            <p className={styles.summaryValue}>
+              {getSprintRate(session.correct, sprintSeconds)}
+            </p>
+          </div>
+          <div className={styles.summaryCard}>
+            <p className={styles.summaryLabel}>Accuracy</p>
+            <p className={styles.summaryValue}>{accuracy}%</p>
+          </div>
+          <div className={styles.summaryCard}>
+            <p className={styles.summaryLabel}>Best</p>
+            <p className={styles.summaryValue}>{best ? best.score : "-"}</p>
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={handlePracticeAgain}
+          className={styles.primaryButton}
+        >
+          Sprint again
+        </button>
+        {sessionSeed !== null ? (
+          <button
+            type="button"
+            onClick={() => startSprint(mode, sessionSeed)}
+            className={styles.secondaryButton}
+          >
+            Replay this code
+          </button>
+        ) : null}
+        <button type="button" onClick={goToMenu} className={styles.secondaryButton}>
+          Back to menu
+        </button>
+      </section>
+    );
+  } else if (screen === "summary" && isSurvival && survival) {
+    const best = survivalBests[mode];
+    content = (
+      <section className={styles.card}>
+        <h2 className={styles.sectionTitle}>
+          {survivalResult?.isBest ? "New personal best" : "Out of lives"}
+        </h2>
+        <p className={styles.sectionSub}>
+          {getModeLabel(mode)} survival
+          {sessionSeed !== null ? ` · Code ${formatSeed(sessionSeed)}` : ""}
+          {settings.survivalStats ? " · Counted in stats" : ""}
+        </p>
+        <div className={styles.summaryGrid}>
+          <div className={styles.summaryCard}>
+            <p className={styles.summaryLabel}>Level reached</p>
+            <p className={styles.summaryValue}>{survival.peakLevel}</p>
+          </div>
+          <div className={styles.summaryCard}>
+            <p className={styles.summaryLabel}>Correct</p>
+            <p className={styles.summaryValue}>{survival.correct}</p>
+          </div>
+          <div className={styles.summaryCard}>
+            <p className={styles.summaryLabel}>Best level</p>
+            <p className={styles.summaryValue}>{best ? best.level : "-"}</p>
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={handlePracticeAgain}
+          className={styles.primaryButton}
+        >
+          Try again
+        </button>
+        {sessionSeed !== null ? (
+          <button
+            type="button"
+            onClick={() => startSurvival(mode, sessionSeed)}
+            className={styles.secondaryButton}
+          >
+            Replay this code
+          </button>
+        ) : null}
+        <button type="button" onClick={goToMenu} className={styles.secondaryButton}>
+          Back to menu
+        </button>
+      </section>
+    );
+  } else if (screen === "summary") {
+    content = (
+      <section className={styles.card}>
+        <h2 className={styles.sectionTitle}>
+          {drillTiming === "session" && budgetLeft === 0
+            ? "Time's up"
+            : "Session complete"}
+        </h2>
+        <p className={styles.sectionSub}>
+          {modeLabel} drill
+          {sessionSeed !== null ? ` · Code ${formatSeed(sessionSeed)}` : ""}
+        </p>
+        <div className={styles.summaryGrid}>
+          <div className={styles.summaryCard}>
+            <p className={styles.summaryLabel}>Accuracy</p>
+            <p className={styles.summaryValue}>{accuracy}%</p>
+          </div>
+          <div className={styles.summaryCard}>
+            <p className={styles.summaryLabel}>Correct</p>
+            <p className={styles.summaryValue}>{session.correct}</p>
+          </div>
+          <div className={styles.summaryCard}>
+            <p className={styles.summaryLabel}>Wrong</p>
+            <p className={styles.summaryValue}>{session.wrong}</p>
+          </div>
+        </div>
+        <button
           type="button"
           onClick={handlePracticeAgain}
           disabled={isMistakeSession && !hasMistakes}
@@ -1478,6 +3411,20 @@ export default function Home() {
         >
           {isMistakeSession ? "Practice mistakes again" : "Practice again"}
         </button>
+        {sessionSeed !== null ? (
+          <button
+            type="button"
+            onClick={() =>
+              startSession(mode, sessionSeed, {
+                tableDrill: activeTableDrill,
+                preset: activePreset,
+              })
+            }
+            className={styles.secondaryButton}
+          >
+            Replay this code
+          </button>
+        ) : null}
         <button type="button" onClick={goToMenu} className={styles.secondaryButton}>
           Back to menu
         </button>
@@ -1517,10 +3464,66 @@ export default function Home() {
           </div>
         </div>
 
+        <div className={styles.settingRow}>
+          <div className={styles.settingInfo}>
+            <p className={styles.settingLabel}>Timing</p>
+            <p className={styles.settingHint}>
+              {TIMING_HINTS[settings.timing]}
+            </p>
+          </div>
+          <div className={styles.stepper}>
+            <button
+              type="button"
+              onClick={cycleTiming}
+              className={styles.stepperButton}
+            >
+              <span className={styles.stepperButtonText}>
+                {TIMING_LABELS[settings.timing]}
+              </span>
+            </button>
+          </div>
+        </div>
+
+        {settings.timing === "session" ? (
+          <div className={styles.settingRow}>
+            <div className={styles.settingInfo}>
+              <p className={styles.settingLabel}>Session budget</p>
+              <p className={styles.settingHint}>Seconds for the whole drill</p>
+            </div>
+            <div className={styles.stepper}>
+              <button
+                type="button"
+                onClick={() =>
+                  adjustSessionSeconds(-SESSION_SECONDS_RANGE.step)
+                }
+                className={styles.stepperButton}
+              >
+                <span className={styles.stepperButtonText}>-</span>
+              </button>
+              <span className={styles.stepperValue}>
+                {settings.sessionSeconds}s
+              </span>
+              <button
+                type="button"
+                onClick={() =>
+                  adjustSessionSeconds(SESSION_SECONDS_RANGE.step)
+                }
+                className={styles.stepperButton}
+              >
+                <span className={styles.stepperButtonText}>+</span>
+              </button>
+            </div>
+          </div>
+        ) : null}
+
         <div className={styles.settingRow}>
           <div className={styles.settingInfo}>
             <p className={styles.settingLabel}>Time per question</p>
-            <p className={styles.settingHint}>Seconds allowed</p>
+            <p className={styles.settingHint}>
+              {settings.timing === "soft"
+                ? "Seconds before the clock turns red"
+                : "Seconds allowed"}
+            </p>
           </div>
           <div className={styles.stepper}>
             <button
@@ -1573,6 +3576,258 @@ export default function Home() {
           </div>
         </div>
 
+        <div className={styles.settingRow}>
+          <div className={styles.settingInfo}>
+            <p className={styles.settingLabel}>Repeat gap</p>
+            <p className={styles.settingHint}>
+              Questions between repeats once every fact has been seen.
+            </p>
+          </div>
+          <div className={styles.stepper}>
+            <button
+              type="button"
+              onClick={() => adjustRepeatGap(-1)}
+              className={styles.stepperButton}
+            >
+              <span className={styles.stepperButtonText}>-</span>
+            </button>
+            <span className={styles.stepperValue}>
+              {settings.repeatGap === 0 ? "Off" : settings.repeatGap}
+            </span>
+            <button
+              type="button"
+              onClick={() => adjustRepeatGap(1)}
+              className={styles.stepperButton}
+            >
+              <span className={styles.stepperButtonText}>+</span>
+            </button>
+          </div>
+        </div>
+
+        <div className={styles.settingRow}>
+          <div className={styles.settingInfo}>
+            <p className={styles.settingLabel}>Difficulty within a level</p>
+            <p className={styles.settingHint}>
+              Favour easier or harder questions, scored by carries, digits and
+              factors.
+            </p>
+          </div>
+          <div className={styles.stepper}>
+            <button
+              type="button"
+              onClick={cycleBand}
+              className={styles.stepperButton}
+            >
+              <span className={styles.stepperButtonText}>
+                {BAND_LABELS[settings.band]}
+              </span>
+            </button>
+          </div>
+        </div>
+
+        <div className={styles.settingRow}>
+          <div className={styles.settingInfo}>
+            <p className={styles.settingLabel}>Adaptivity</p>
+            <p className={styles.settingHint}>
+              Level up on streaks, or follow a skill rating aimed at about 80%
+              correct.
+            </p>
+          </div>
+          <div className={styles.stepper}>
+            <button
+              type="button"
+              onClick={cycleEngine}
+              className={styles.stepperButton}
+            >
+              <span className={styles.stepperButtonText}>
+                {ENGINE_LABELS[settings.engine]}
+              </span>
+            </button>
+          </div>
+        </div>
+
+        <div className={styles.settingRow}>
+          <div className={styles.settingInfo}>
+            <p className={styles.settingLabel}>Learner age</p>
+            <p className={styles.settingHint}>
+              Sets the starting target time; it then follows your own speed.
+            </p>
+          </div>
+          <div className={styles.stepper}>
+            <button
+              type="button"
+              onClick={cycleAgeGroup}
+              className={styles.stepperButton}
+            >
+              <span className={styles.stepperButtonText}>
+                {AGE_GROUP_LABELS[settings.ageGroup]}
+              </span>
+            </button>
+          </div>
+        </div>
+
+        <div className={styles.settingRow}>
+          <div className={styles.settingInfo}>
+            <p className={styles.settingLabel}>Unknown number</p>
+            <p className={styles.settingHint}>
+              Hide the answer, an operand (? + 7 = 15), or mix both.
+            </p>
+          </div>
+          <div className={styles.stepper}>
+            <button
+              type="button"
+              onClick={cycleUnknownMode}
+              className={styles.stepperButton}
+            >
+              <span className={styles.stepperButtonText}>
+                {UNKNOWN_LABELS[settings.unknown]}
+              </span>
+            </button>
+          </div>
+        </div>
+
+        <div className={styles.settingRow}>
+          <div className={styles.settingInfo}>
+            <p className={styles.settingLabel}>Division remainders</p>
+            <p className={styles.settingHint}>
+              Ask for answers like 7 r 3 instead of exact quotients.
+            </p>
+          </div>
+          <div className={styles.stepper}>
+            <button
+              type="button"
+              onClick={toggleRemainders}
+              aria-pressed={settings.remainders}
+              className={styles.stepperButton}
+            >
+              <span className={styles.stepperButtonText}>
+                {settings.remainders ? "On" : "Off"}
+              </span>
+            </button>
+          </div>
+        </div>
+
+        <div className={styles.settingRow}>
+          <div className={styles.settingInfo}>
+            <p className={styles.settingLabel}>Unsimplified fractions</p>
+            <p className={styles.settingHint}>
+              Accept answers like 2/4 when 1/2 is expected.
+            </p>
+          </div>
+          <div className={styles.stepper}>
+            <button
+              type="button"
+              onClick={toggleAcceptUnsimplified}
+              aria-pressed={settings.acceptUnsimplified}
+              className={styles.stepperButton}
+            >
+              <span className={styles.stepperButtonText}>
+                {settings.acceptUnsimplified ? "Accept" : "Reject"}
+              </span>
+            </button>
+          </div>
+        </div>
+
+        <div className={styles.settingRow}>
+          <div className={styles.settingInfo}>
+            <p className={styles.settingLabel}>Drill code</p>
+            <p className={styles.settingHint}>
+              Share a code to get the same questions. Leave empty for a new
+              code each drill.
+            </p>
+          </div>
+          <input
+            className={`${styles.answerInput} ${styles.settingInput}`}
+            type="text"
+            value={settings.seedCode}
+            onChange={(event) => updateSeedCode(event.target.value)}
+            placeholder="Random"
+            autoComplete="off"
+            aria-label="Drill code"
+          />
+        </div>
+
+        <div className={styles.settingRow}>
+          <div className={styles.settingInfo}>
+            <p className={styles.settingLabel}>Level curve</p>
+            <p className={styles.settingHint}>
+              {curve.name}, up to level {curve.maxLevel}. Paste or open a JSON
+              curve, preview it, then load it.
+            </p>
+          </div>
+          {curve !== DEFAULT_CURVE ? (
+            <button
+              type="button"
+              onClick={resetCurve}
+              className={styles.stepperButton}
+            >
+              <span className={styles.stepperButtonText}>Reset</span>
+            </button>
+          ) : null}
+        </div>
+        <textarea
+          className={`${styles.answerInput} ${styles.curveEditor}`}
+          value={curveDraft}
+          onChange={(event) => {
+            setCurveDraft(event.target.value);
+            setCurvePreview(null);
+          }}
+          placeholder={'{ "name": "Grade 2", "skills": { "add": { "levels": [{ "maxA": 10, "maxB": 10 }], "levelCount": 20, "step": 5 } } }'}
+          spellCheck={false}
+          aria-label="Level curve JSON"
+        />
+        <div className={`${styles.actionRow} ${styles.curveActions}`}>
+          <label className={styles.secondaryButton}>
+            Open file
+            <input
+              type="file"
+              accept="application/json,.json"
+              className={styles.curveFile}
+              onChange={(event) => {
+                readCurveFile(event.target.files?.[0]);
+                event.target.value = "";
+              }}
+            />
+          </label>
+          <button
+            type="button"
+            onClick={previewCurve}
+            className={styles.secondaryButton}
+          >
+            Preview
+          </button>
+          <button
+            type="button"
+            onClick={loadCurve}
+            className={styles.primaryButton}
+          >
+            Load curve
+          </button>
+        </div>
+        {curvePreview?.errors.map((message) => (
+          <p key={message} className={styles.errorText}>
+            {message}
+          </p>
+        ))}
+        {curvePreview?.curve ? (
+          <ul className={styles.curvePreview}>
+            {SKILL_LIST.filter(
+              (skill) =>
+                curvePreview.curve?.levels[skill] !== DEFAULT_CURVE.levels[skill]
+            ).map((skill) => {
+              const ladder = curvePreview.curve?.levels[skill] ?? [];
+              const last = ladder[ladder.length - 1];
+              return (
+                <li key={skill}>
+                  {SKILL_LABELS[skill]}: {ladder.length} levels, level 1{" "}
+                  {describeLevelSpec(ladder[0])}, level {ladder.length}{" "}
+                  {describeLevelSpec(last)}
+                </li>
+              );
+            })}
+          </ul>
+        ) : null}
+
         <button
           type="button"
           onClick={toggleTheme}
@@ -1617,6 +3872,29 @@ export default function Home() {
           </span>
         </button>
 
+        <div className={styles.settingRow}>
+          <div className={styles.settingInfo}>
+            <p className={styles.settingLabel}>Placement test</p>
+            <p className={styles.settingHint}>
+              {placedAt !== null
+                ? `Last taken ${new Date(placedAt).toLocaleDateString()}. `
+                : ""}
+              About {PLACEMENT_QUESTIONS * MIX_SKILLS.length} questions to set
+              starting levels for addition, subtraction, multiplication and
+              division.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={startPlacement}
+            className={styles.stepperButton}
+          >
+            <span className={styles.stepperButtonText}>
+              {placedAt !== null ? "Retake" : "Start"}
+            </span>
+          </button>
+        </div>
+
         <button type="button" onClick={resetStats} className={styles.dangerButton}>
           Reset all stats
         </button>